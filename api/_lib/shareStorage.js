@@ -0,0 +1,89 @@
+/**
+ * Storage adapters for shared conversation snapshots.
+ * Files starting with "_" are not deployed as API routes by Vercel.
+ *
+ * Every adapter implements:
+ *   get(id)            -> record or null (expired records count as missing)
+ *   put(id, record)    -> stores the record; record.expiresAt (ms) is honoured
+ *   delete(id)         -> removes the record if present
+ */
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const isExpired = (record) => !!record.expiresAt && record.expiresAt <= Date.now();
+
+// Local development: one JSON file per share
+export const createFileStorage = (dir) => {
+  // IDs are generated server-side, but never let one escape the directory
+  const fileFor = (id) => path.join(dir, `${path.basename(id)}.json`);
+
+  const remove = async (id) => {
+    try {
+      await fs.unlink(fileFor(id));
+    } catch (error) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  };
+
+  return {
+    async get(id) {
+      let record;
+      try {
+        record = JSON.parse(await fs.readFile(fileFor(id), 'utf8'));
+      } catch (error) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+      }
+      if (isExpired(record)) {
+        await remove(id);
+        return null;
+      }
+      return record;
+    },
+    async put(id, record) {
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(fileFor(id), JSON.stringify(record));
+    },
+    delete: remove,
+  };
+};
+
+// Production: Vercel KV / Upstash Redis through its REST API
+export const createKVStorage = ({ url, token, prefix = 'share:' }) => {
+  const command = async (...args) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(args),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || data.error) {
+      throw new Error(`KV ${args[0]} failed: ${data.error || response.status}`);
+    }
+    return data.result;
+  };
+
+  return {
+    async get(id) {
+      const value = await command('GET', prefix + id);
+      if (!value) return null;
+      const record = JSON.parse(value);
+      return isExpired(record) ? null : record;
+    },
+    async put(id, record) {
+      const ttl = record.expiresAt ? ['PX', Math.max(1, record.expiresAt - Date.now())] : [];
+      await command('SET', prefix + id, JSON.stringify(record), ...ttl);
+    },
+    async delete(id) {
+      await command('DEL', prefix + id);
+    },
+  };
+};
+
+// KV when its credentials are configured, otherwise the filesystem
+export const getShareStorage = () => {
+  const url = process.env.KV_REST_API_URL;
+  const token = process.env.KV_REST_API_TOKEN;
+  if (url && token) return createKVStorage({ url, token });
+  return createFileStorage(process.env.SHARE_STORAGE_DIR || path.join(process.cwd(), '.shares'));
+};
@@ -24,6 +24,76 @@ const isRateLimited = (ip) => {
   return false;
 };
 
+// Map Gemini usage metadata onto the client's TokenUsage shape
+const toUsage = (usageMetadata) => usageMetadata && {
+  promptTokens: usageMetadata.promptTokenCount || 0,
+  completionTokens: usageMetadata.candidatesTokenCount || 0,
+  totalTokens: usageMetadata.totalTokenCount || 0
+};
+
+// Build Gemini's generationConfig from the optional request fields.
+// responseSchema/responseMimeType enable native JSON structured output.
+const buildGenerationConfig = (body) => {
+  const config = {};
+  if (typeof body.temperature === 'number') config.temperature = body.temperature;
+  if (typeof body.topP === 'number') config.topP = body.topP;
+  if (typeof body.maxTokens === 'number') config.maxOutputTokens = body.maxTokens;
+  if (body.responseSchema && typeof body.responseSchema === 'object') {
+    config.responseMimeType = body.responseMimeType || 'application/json';
+    config.responseSchema = body.responseSchema;
+  } else if (typeof body.responseMimeType === 'string') {
+    config.responseMimeType = body.responseMimeType;
+  }
+  return config;
+};
+
+// Status to report for an upstream Gemini error
+const upstreamStatus = (error) =>
+  error.status >= 400 && error.status < 600 ? error.status : 500;
+
+// Stream generated text back to the client as Server-Sent Events.
+// Text chunks are sent as plain `data:` events, followed by a `done` event
+// carrying usage, or an `error` event if generation fails midway.
+const streamContent = async (genModel, prompt, model, res, signal) => {
+  // Start the upstream request first so early failures still get a real status code
+  const result = await genModel.generateContentStream(prompt, { signal });
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+
+  const send = (event, data) => {
+    if (event) res.write(`event: ${event}\n`);
+    res.write(`data: ${JSON.stringify(data)}\n\n`);
+  };
+
+  try {
+    let length = 0;
+    for await (const chunk of result.stream) {
+      const text = chunk.text();
+      length += text.length;
+      send(null, { text });
+    }
+    const response = await result.response;
+    console.log('Streamed response complete, length:', length);
+    send('done', { model, usage: toUsage(response.usageMetadata) });
+    console.log('---------- API REQUEST END (SUCCESS, STREAMED) ----------');
+  } catch (streamError) {
+    if (signal.aborted) {
+      console.log('---------- API REQUEST END (CLIENT DISCONNECTED) ----------');
+      return;
+    }
+    console.error('Error while streaming content:', streamError);
+    send('error', {
+      error: 'Content generation failed',
+      message: streamError.message,
+      status: upstreamStatus(streamError)
+    });
+  }
+  res.end();
+};
+
 // Vercel serverless handler using export default (ES module style)
 export default async function handler(req, res) {
   console.log('---------- API REQUEST START ----------');
@@ -75,7 +145,7 @@ export default async function handler(req, res) {
     console.log('API key found, length:', apiKey.length);
     
     // Parse request body
-    let prompt, model;
+    let prompt, model, stream, generationConfig, systemInstruction;
     try {
       console.log('Parsing request body');
       
@@ -88,14 +158,15 @@ export default async function handler(req, res) {
       console.log('Request body type:', typeof req.body);
       
       // Handle different body formats
-      if (typeof req.body === 'string') {
-        const parsedBody = JSON.parse(req.body);
-        prompt = parsedBody.prompt;
-        model = parsedBody.model;
-      } else {
-        prompt = req.body.prompt;
-        model = req.body.model;
-      }
+      const body = typeof req.body === 'string' ? JSON.parse(req.body) : req.body;
+      prompt = body.prompt;
+      model = body.model;
+      stream = body.stream === true;
+      generationConfig = buildGenerationConfig(body);
+      // Optional chat-style system instruction, kept apart from the prompt
+      systemInstruction = typeof body.systemInstruction === 'string' && body.systemInstruction
+        ? body.systemInstruction
+        : undefined;
       
       if (!prompt) {
         console.error('No prompt found in request');
@@ -104,6 +175,7 @@ export default async function handler(req, res) {
       
       console.log('Prompt received, length:', prompt.length);
       console.log('Model requested:', model || 'default');
+      if (systemInstruction) console.log('System instruction received, length:', systemInstruction.length);
     } catch (bodyError) {
       console.error('Error parsing request body:', bodyError);
       return res.status(400).json({ 
@@ -131,7 +203,9 @@ export default async function handler(req, res) {
     let genModel;
     try {
       genModel = genAI.getGenerativeModel({ 
-        model: model || 'gemini-1.0-pro'
+        model: model || 'gemini-1.0-pro',
+        generationConfig,
+        ...(systemInstruction && { systemInstruction })
       });
       console.log('Successfully got generative model');
     } catch (modelError) {
@@ -142,10 +216,23 @@ export default async function handler(req, res) {
       });
     }
     
+    // Abort the upstream Gemini call if the client disconnects before we answer
+    const upstream = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        console.log('Client disconnected, aborting upstream request');
+        upstream.abort();
+      }
+    });
+    
     // Generate content
-    console.log('Generating content');
+    console.log(stream ? 'Streaming content' : 'Generating content');
     try {
-      const result = await genModel.generateContent(prompt);
+      if (stream) {
+        return await streamContent(genModel, prompt, model || 'gemini-1.0-pro', res, upstream.signal);
+      }
+
+      const result = await genModel.generateContent(prompt, { signal: upstream.signal });
       console.log('Content generated successfully');
       
       const response = await result.response;
@@ -153,10 +240,19 @@ export default async function handler(req, res) {
       console.log('Response text extracted, length:', text.length);
       
       console.log('---------- API REQUEST END (SUCCESS) ----------');
-      return res.status(200).json({ text, model: model || 'gemini-1.0-pro' });
+      return res.status(200).json({
+        text,
+        model: model || 'gemini-1.0-pro',
+        usage: toUsage(response.usageMetadata)
+      });
     } catch (generationError) {
+      if (upstream.signal.aborted) {
+        console.log('---------- API REQUEST END (CLIENT DISCONNECTED) ----------');
+        return;
+      }
       console.error('Error generating content:', generationError);
-      return res.status(500).json({ 
+      // Pass upstream auth / rate limit statuses through so the client can map them
+      return res.status(upstreamStatus(generationError)).json({ 
         error: 'Content generation failed', 
         message: generationError.message,
         stack: generationError.stack
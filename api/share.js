@@ -0,0 +1,138 @@
+/**
+ * Shareable snapshots of a conversation
+ *
+ *   POST   /api/share            { conversation, expiresIn? }  -> 201 { id, deleteToken, expiresAt }
+ *   GET    /api/share?id=ID                                    -> 200 { id, conversation, createdAt, expiresAt }
+ *   DELETE /api/share?id=ID      X-Delete-Token: TOKEN         -> 204
+ *
+ * IDs are short but unguessable. Only a hash of the delete token is stored,
+ * so the creator's copy is the only way to remove a share early.
+ */
+import { randomBytes, createHash, timingSafeEqual } from 'crypto';
+import { getShareStorage } from './_lib/shareStorage.js';
+
+const MAX_SNAPSHOT_BYTES = 1024 * 1024;
+const MAX_EXPIRY_SECONDS = 90 * 24 * 60 * 60; // 90 days
+const ID_PATTERN = /^[A-Za-z0-9_-]{12}$/;
+
+// Rate limiting for share creation
+const RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute window
+const MAX_SHARES_PER_WINDOW = 10;
+const requestLog = {};
+
+const isRateLimited = (ip) => {
+  const now = Date.now();
+  requestLog[ip] = (requestLog[ip] || []).filter(time => time > now - RATE_LIMIT_WINDOW);
+  if (requestLog[ip].length >= MAX_SHARES_PER_WINDOW) return true;
+  requestLog[ip].push(now);
+  return false;
+};
+
+const clientIp = (req) =>
+  (req.headers['x-forwarded-for'] || '').split(',')[0].trim() || req.socket?.remoteAddress || 'unknown';
+
+const hashToken = (token) => createHash('sha256').update(token).digest();
+
+const tokenMatches = (token, storedHash) => {
+  if (typeof token !== 'string' || !token) return false;
+  const expected = Buffer.from(storedHash, 'hex');
+  const actual = hashToken(token);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+// Just enough checking to refuse things that are clearly not a conversation
+const isConversation = (value) =>
+  !!value && typeof value === 'object' &&
+  typeof value.prompt === 'string' &&
+  Array.isArray(value.ideas) &&
+  value.ideas.every((idea) => idea && typeof idea.title === 'string' && typeof idea.description === 'string');
+
+const createShare = async (req, res, storage) => {
+  if (isRateLimited(clientIp(req))) {
+    return res.status(429).json({ error: 'Too many shares', message: 'Please wait a minute before sharing again' });
+  }
+
+  let body;
+  try {
+    body = typeof req.body === 'string' ? JSON.parse(req.body) : req.body;
+  } catch (bodyError) {
+    return res.status(400).json({ error: 'Invalid request body', message: bodyError.message });
+  }
+  if (!body || !isConversation(body.conversation)) {
+    return res.status(400).json({ error: 'Invalid request body', message: 'Expected a conversation with a prompt and ideas' });
+  }
+
+  const snapshot = JSON.stringify(body.conversation);
+  if (Buffer.byteLength(snapshot) > MAX_SNAPSHOT_BYTES) {
+    return res.status(413).json({ error: 'Snapshot too large', message: 'Conversations over 1 MB cannot be shared' });
+  }
+
+  let expiresAt = null;
+  if (body.expiresIn !== undefined && body.expiresIn !== null) {
+    const seconds = Number(body.expiresIn);
+    if (!Number.isFinite(seconds) || seconds <= 0 || seconds > MAX_EXPIRY_SECONDS) {
+      return res.status(400).json({ error: 'Invalid expiry', message: `expiresIn must be between 1 and ${MAX_EXPIRY_SECONDS} seconds` });
+    }
+    expiresAt = Date.now() + seconds * 1000;
+  }
+
+  const id = randomBytes(9).toString('base64url');
+  const deleteToken = randomBytes(24).toString('base64url');
+  await storage.put(id, {
+    id,
+    conversation: JSON.parse(snapshot),
+    createdAt: Date.now(),
+    expiresAt,
+    deleteTokenHash: hashToken(deleteToken).toString('hex'),
+  });
+
+  console.log('Share created:', id, expiresAt ? `expires ${new Date(expiresAt).toISOString()}` : 'no expiry');
+  return res.status(201).json({ id, deleteToken, expiresAt });
+};
+
+export default async function handler(req, res) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Delete-Token');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    const storage = getShareStorage();
+
+    if (req.method === 'POST') {
+      return await createShare(req, res, storage);
+    }
+
+    const id = req.query?.id;
+    if (typeof id !== 'string' || !ID_PATTERN.test(id)) {
+      return res.status(400).json({ error: 'Invalid share id' });
+    }
+
+    if (req.method === 'GET') {
+      const record = await storage.get(id);
+      if (!record) return res.status(404).json({ error: 'Share not found', message: 'This link does not exist or has expired' });
+      res.setHeader('Cache-Control', 'no-store');
+      const { conversation, createdAt, expiresAt } = record;
+      return res.status(200).json({ id, conversation, createdAt, expiresAt });
+    }
+
+    if (req.method === 'DELETE') {
+      const record = await storage.get(id);
+      if (!record) return res.status(404).json({ error: 'Share not found' });
+      if (!tokenMatches(req.headers['x-delete-token'], record.deleteTokenHash)) {
+        return res.status(403).json({ error: 'Invalid delete token' });
+      }
+      await storage.delete(id);
+      console.log('Share deleted:', id);
+      return res.status(204).end();
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    console.error('Share storage error:', error);
+    return res.status(500).json({ error: 'Share storage failed', message: error.message });
+  }
+}
@@ -1,37 +1,86 @@
-import React from 'react';
-import { Sparkles } from 'lucide-react';
+import React, { useState } from 'react';
+import { Sparkles, History, Library } from 'lucide-react';
 import { AIProvider } from './context/AIContext';
-import { AIProvider as BadAIProvider } from './context/BadAIContext';
-import { ModeProvider, useMode } from './context/ModeContext';
+import { ModeProvider } from './context/ModeContext';
+import { HistoryProvider } from './context/HistoryContext';
+import { CollectionsProvider } from './context/CollectionsContext';
+import { DirectionsProvider } from './context/DirectionsContext';
 import { PromptInput } from './components/PromptInput';
 import { IdeaList } from './components/IdeaList';
 import { ModeSelector } from './components/ModeSelector';
+import { HistorySidebar } from './components/HistorySidebar';
+import { CollectionsView } from './components/CollectionsView';
+import { DirectionsView } from './components/DirectionsView';
+import { DirectionLibraryPicker } from './components/DirectionLibraryPicker';
+import { SharedView } from './components/SharedView';
+import { shareIdFromPath } from './utils/share';
+
+// Set when the page was opened from a /s/:id share link
+const sharedId = shareIdFromPath(window.location.pathname);
 
 // Inner component to access context
 const AppContent: React.FC = () => {
-  const { mode } = useMode();
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [view, setView] = useState<'ideas' | 'collections' | 'directions'>('ideas');
   
   return (
     <div className="min-h-screen bg-gray-900 text-gray-100 flex flex-col">
+      {!sharedId && (
+        <>
+          <button
+            type="button"
+            onClick={() => setIsHistoryOpen(true)}
+            title="Show history"
+            className="fixed top-3 left-3 sm:top-4 sm:left-4 z-30 p-2 rounded-lg bg-gray-800 text-gray-300 hover:bg-gray-700 border border-gray-700 transition-colors"
+          >
+            <History className="w-5 h-5" />
+          </button>
+          <button
+            type="button"
+            onClick={() => setView('collections')}
+            title="Favorites and collections"
+            className="fixed top-3 right-3 sm:top-4 sm:right-4 z-30 p-2 rounded-lg bg-gray-800 text-gray-300 hover:bg-gray-700 border border-gray-700 transition-colors"
+          >
+            <Library className="w-5 h-5" />
+          </button>
+          <HistorySidebar
+            isOpen={isHistoryOpen}
+            onClose={() => setIsHistoryOpen(false)}
+            onOpenSession={() => {
+              setIsHistoryOpen(false);
+              setView('ideas');
+            }}
+          />
+        </>
+      )}
       <div className="container mx-auto px-4 sm:px-6 py-4 sm:py-8 flex-grow">
         <div className="flex flex-col items-center space-y-4 sm:space-y-8">
           <div className="text-center w-full">
             <div className="flex items-center justify-center space-x-2">
               <Sparkles className="w-6 h-6 sm:w-8 sm:h-8 text-indigo-400" />
               <h1 className="text-2xl sm:text-3xl font-bold text-gray-100">
-                {mode === 'good' ? 'The Muse Bot' : 'The Muse Bot'}
+                The Muse Bot
               </h1>
             </div>
             <p className="mt-1 sm:mt-2 text-sm sm:text-base text-gray-400">
-              {mode === 'good' 
-                ? 'Transform anything into random ideas.' 
-                : 'Transform anything into random ideas.'}
+              Transform anything into random ideas.
             </p>
           </div>
           
-          <ModeSelector />
-          <PromptInput />
-          <IdeaList />
+          {sharedId ? (
+            <SharedView shareId={sharedId} />
+          ) : view === 'collections' ? (
+            <CollectionsView onBack={() => setView('ideas')} />
+          ) : view === 'directions' ? (
+            <DirectionsView onBack={() => setView('ideas')} />
+          ) : (
+            <>
+              <ModeSelector />
+              <DirectionLibraryPicker onEdit={() => setView('directions')} />
+              <PromptInput />
+              <IdeaList />
+            </>
+          )}
         </div>
       </div>
       
@@ -52,11 +101,15 @@ const AppContent: React.FC = () => {
 function App() {
   return (
     <ModeProvider>
-      <AIProvider>
-        <BadAIProvider>
-          <AppContent />
-        </BadAIProvider>
-      </AIProvider>
+      <HistoryProvider>
+        <CollectionsProvider>
+          <DirectionsProvider>
+            <AIProvider>
+              <AppContent />
+            </AIProvider>
+          </DirectionsProvider>
+        </CollectionsProvider>
+      </HistoryProvider>
     </ModeProvider>
   );
 }
@@ -0,0 +1,218 @@
+import React, { useState } from 'react';
+import { ArrowLeft, FolderPlus, Trash2, X } from 'lucide-react';
+import { useCollections } from '../context/CollectionsContext';
+import { FAVORITES_ID, parseTags } from '../utils/collections';
+import { modeLabel } from '../pipeline/modes/registry';
+import type { Collection, SavedIdea } from '../types';
+import { ExportMenu } from './ExportMenu';
+
+const SavedIdeaCard: React.FC<{
+  idea: SavedIdea;
+  collection: Collection;
+  targets: Collection[];
+}> = ({ idea, collection, targets }) => {
+  const { moveIdea, copyIdea, removeIdea } = useCollections();
+  const [target, setTarget] = useState('');
+
+  return (
+    <div className="bg-gray-800 rounded-lg shadow-lg shadow-gray-900/30 p-4 sm:p-6 border border-gray-700">
+      <h3 className="text-lg sm:text-xl font-bold mb-2 text-gray-100">{idea.title}</h3>
+      <p className="text-xs sm:text-sm text-gray-500 mb-2 sm:mb-3">
+        “{idea.prompt}” · {modeLabel(idea.mode)}
+        {idea.rating > 0 && <> · Rating <span className="text-indigo-400">{idea.rating}/100</span></>}
+      </p>
+      <div className="space-y-2">
+        {idea.description.split('\n\n').map((paragraph, index) => (
+          <p key={index} className="text-sm sm:text-base text-gray-300 leading-relaxed">{paragraph}</p>
+        ))}
+      </div>
+      <div className="mt-3 sm:mt-4 flex flex-wrap items-center gap-2 text-xs sm:text-sm">
+        {targets.length > 0 && (
+          <>
+            <select
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              aria-label="Target collection"
+              className="bg-gray-700 text-gray-300 rounded-lg px-2 py-1 focus:outline-none"
+            >
+              <option value="">Choose collection…</option>
+              {targets.map((other) => (
+                <option key={other.id} value={other.id}>{other.name}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              disabled={!target}
+              onClick={() => moveIdea(collection.id, target, idea.id)}
+              className="text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-lg px-2 py-1 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Move
+            </button>
+            <button
+              type="button"
+              disabled={!target}
+              onClick={() => copyIdea(collection.id, target, idea.id)}
+              className="text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-lg px-2 py-1 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Copy
+            </button>
+          </>
+        )}
+        <button
+          type="button"
+          onClick={() => removeIdea(collection.id, idea.id)}
+          title="Remove from this collection"
+          className="ml-auto p-1.5 rounded text-gray-400 hover:text-red-400 hover:bg-gray-700"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const CollectionsView: React.FC<{ onBack: () => void }> = ({ onBack }) => {
+  const { collections, error, createCollection, updateCollection, deleteCollection } = useCollections();
+  const [selectedId, setSelectedId] = useState(FAVORITES_ID);
+  const [newName, setNewName] = useState('');
+  const [newTags, setNewTags] = useState('');
+  const [tagInput, setTagInput] = useState('');
+
+  const selected = collections.find((collection) => collection.id === selectedId) ?? collections[0];
+  const targets = collections.filter((collection) => collection.id !== selected.id);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    const collection = createCollection(newName, parseTags(newTags));
+    setSelectedId(collection.id);
+    setNewName('');
+    setNewTags('');
+  };
+
+  const addTags = (e: React.FormEvent) => {
+    e.preventDefault();
+    const tags = parseTags(tagInput);
+    if (tags.length) updateCollection(selected.id, { tags: [...new Set([...selected.tags, ...tags])] });
+    setTagInput('');
+  };
+
+  return (
+    <div className="w-full max-w-full sm:max-w-5xl space-y-4">
+      <button type="button" onClick={onBack} className="flex items-center space-x-1 text-sm text-gray-400 hover:text-gray-200">
+        <ArrowLeft className="w-4 h-4" />
+        <span>Back to ideas</span>
+      </button>
+
+      {error && <p className="text-xs sm:text-sm text-red-400">{error}</p>}
+
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="sm:w-64 flex-shrink-0 space-y-2">
+          {collections.map((collection) => (
+            <button
+              key={collection.id}
+              type="button"
+              onClick={() => setSelectedId(collection.id)}
+              className={`w-full text-left rounded-lg px-3 py-2 border transition-colors ${
+                collection.id === selected.id
+                  ? 'bg-indigo-600/20 border-indigo-500 text-gray-100'
+                  : 'bg-gray-800 border-gray-700 text-gray-300 hover:border-indigo-500'
+              }`}
+            >
+              <span className="block text-sm font-medium truncate">{collection.name}</span>
+              <span className="block text-xs text-gray-500">{collection.ideas.length} ideas</span>
+            </button>
+          ))}
+
+          <form onSubmit={handleCreate} className="space-y-2 pt-2 border-t border-gray-800">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New collection name"
+              className="w-full bg-gray-800 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-gray-100 placeholder-gray-500 focus:outline-none focus:border-indigo-500"
+            />
+            <input
+              value={newTags}
+              onChange={(e) => setNewTags(e.target.value)}
+              placeholder="Tags, comma separated"
+              className="w-full bg-gray-800 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-gray-100 placeholder-gray-500 focus:outline-none focus:border-indigo-500"
+            />
+            <button
+              type="submit"
+              disabled={!newName.trim()}
+              className="w-full text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg text-sm px-3 py-1.5 flex items-center justify-center space-x-1 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <FolderPlus className="w-4 h-4" />
+              <span>Create collection</span>
+            </button>
+          </form>
+        </div>
+
+        <div className="flex-grow min-w-0 space-y-3 sm:space-y-4">
+          <div className="flex items-center gap-2">
+            {selected.id === FAVORITES_ID ? (
+              <h2 className="text-xl sm:text-2xl font-bold text-gray-100">{selected.name}</h2>
+            ) : (
+              <input
+                value={selected.name}
+                onChange={(e) => updateCollection(selected.id, { name: e.target.value })}
+                aria-label="Collection name"
+                className="flex-grow bg-transparent text-xl sm:text-2xl font-bold text-gray-100 border-b border-transparent focus:border-indigo-500 focus:outline-none"
+              />
+            )}
+            {selected.id !== FAVORITES_ID && (
+              <button
+                type="button"
+                onClick={() => {
+                  deleteCollection(selected.id);
+                  setSelectedId(FAVORITES_ID);
+                }}
+                title="Delete collection"
+                className="p-1.5 rounded text-gray-400 hover:text-red-400 hover:bg-gray-800"
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            {selected.tags.map((tag) => (
+              <span key={tag} className="flex items-center space-x-1 rounded-full bg-gray-800 border border-gray-700 px-2 py-0.5 text-xs text-gray-300">
+                <span>#{tag}</span>
+                <button
+                  type="button"
+                  onClick={() => updateCollection(selected.id, { tags: selected.tags.filter((other) => other !== tag) })}
+                  title={`Remove tag ${tag}`}
+                  className="text-gray-500 hover:text-gray-200"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+            <form onSubmit={addTags}>
+              <input
+                value={tagInput}
+                onChange={(e) => setTagInput(e.target.value)}
+                placeholder="Add tags…"
+                className="bg-transparent border-b border-gray-700 px-1 py-0.5 text-xs text-gray-300 placeholder-gray-500 focus:outline-none focus:border-indigo-500"
+              />
+            </form>
+          </div>
+
+          {selected.ideas.length > 0 && <ExportMenu source={{ kind: 'collection', collection: selected }} />}
+
+          {!selected.ideas.length && (
+            <p className="text-sm text-gray-500">
+              {selected.id === FAVORITES_ID
+                ? 'Star an idea to keep it here.'
+                : 'Save ideas here from the “Save to…” menu on any idea.'}
+            </p>
+          )}
+          {selected.ideas.map((idea) => (
+            <SavedIdeaCard key={idea.id} idea={idea} collection={selected} targets={targets} />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,25 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import { EXPANSION_TEMPLATES } from '../pipeline/expansion';
+import type { IdeaExpansion } from '../types';
+
+// Element styles for the generated Markdown; the project has no typography plugin
+const MARKDOWN_CLASSES = [
+  'text-sm sm:text-base text-gray-300 leading-relaxed space-y-2 sm:space-y-3',
+  '[&_h1]:text-lg [&_h1]:font-bold [&_h1]:text-gray-100',
+  '[&_h2]:text-base [&_h2]:sm:text-lg [&_h2]:font-semibold [&_h2]:text-indigo-300 [&_h2]:mt-3',
+  '[&_h3]:font-semibold [&_h3]:text-gray-100',
+  '[&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-5 [&_ol]:pl-5 [&_li]:mt-1',
+  '[&_strong]:text-gray-100',
+].join(' ');
+
+export const ConceptDocument: React.FC<{ expansion: IdeaExpansion }> = ({ expansion }) => (
+  <details open className="mt-3 sm:mt-4 rounded-lg border border-gray-700 bg-gray-900/60">
+    <summary className="cursor-pointer select-none px-3 sm:px-4 py-2 text-xs sm:text-sm font-medium text-gray-300">
+      {EXPANSION_TEMPLATES[expansion.template].label}
+    </summary>
+    <div className={`px-3 sm:px-4 pb-3 sm:pb-4 ${MARKDOWN_CLASSES}`}>
+      <ReactMarkdown>{expansion.markdown}</ReactMarkdown>
+    </div>
+  </details>
+);
@@ -0,0 +1,36 @@
+import React from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { useDirections } from '../context/DirectionsContext';
+import { useMode } from '../context/ModeContext';
+import { isDrawable } from '../pipeline/directions';
+
+// Chooses the direction library the next run of the current mode draws from
+export const DirectionLibraryPicker: React.FC<{ onEdit: () => void }> = ({ onEdit }) => {
+  const { mode } = useMode();
+  const { libraries, activeLibrary, selectLibrary } = useDirections();
+  const usable = libraries.filter((library) => library.mode === mode && library.directions.some(isDrawable));
+
+  return (
+    <div className="flex items-center justify-center gap-2 text-xs sm:text-sm text-gray-400">
+      <label htmlFor="direction-library">Directions:</label>
+      <select
+        id="direction-library"
+        value={activeLibrary(mode).id}
+        onChange={(e) => selectLibrary(mode, e.target.value)}
+        className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-gray-300 focus:outline-none focus:border-indigo-500"
+      >
+        {usable.map((library) => (
+          <option key={library.id} value={library.id}>{library.name}</option>
+        ))}
+      </select>
+      <button
+        type="button"
+        onClick={onEdit}
+        title="Edit direction libraries"
+        className="p-1.5 rounded-lg text-gray-400 hover:text-gray-100 hover:bg-gray-800"
+      >
+        <SlidersHorizontal className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
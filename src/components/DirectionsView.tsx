@@ -0,0 +1,339 @@
+import React, { useRef, useState } from 'react';
+import { ArrowLeft, Copy, Download, FolderPlus, Plus, RotateCcw, Trash2, Upload } from 'lucide-react';
+import { useDirections } from '../context/DirectionsContext';
+import { useMode } from '../context/ModeContext';
+import { DIRECTION_CATEGORIES, isDrawable } from '../pipeline/directions';
+import { listModes, modeLabel } from '../pipeline/modes/registry';
+import {
+  createDirection,
+  createLibrary,
+  duplicateLibrary,
+  parseLibraries,
+  serializeLibraries,
+} from '../utils/directions';
+import { downloadFile } from '../utils/download';
+import type { Direction, DirectionCategory, DirectionLibrary, DirectionMix, Mode } from '../types';
+
+const DirectionRow: React.FC<{
+  direction: Direction;
+  readOnly: boolean;
+  onChange: (changes: Partial<Direction>) => void;
+  onDelete: () => void;
+}> = ({ direction, readOnly, onChange, onDelete }) => (
+  <div className={`flex items-center gap-2 rounded-lg border border-gray-700 bg-gray-800 px-2 py-1.5 ${
+    isDrawable(direction) ? '' : 'opacity-60'
+  }`}>
+    <input
+      type="checkbox"
+      checked={direction.enabled}
+      onChange={(e) => onChange({ enabled: e.target.checked })}
+      disabled={readOnly}
+      title={direction.enabled ? 'Disable direction' : 'Enable direction'}
+      className="accent-indigo-500"
+    />
+    <input
+      value={direction.text}
+      onChange={(e) => onChange({ text: e.target.value })}
+      readOnly={readOnly}
+      aria-label="Direction"
+      className="flex-grow min-w-0 bg-transparent text-sm text-gray-200 focus:outline-none"
+    />
+    <select
+      value={direction.category ?? ''}
+      onChange={(e) => onChange({ category: (e.target.value || undefined) as DirectionCategory | undefined })}
+      disabled={readOnly}
+      aria-label="Category"
+      className="bg-gray-700 rounded px-1.5 py-0.5 text-sm text-gray-300 focus:outline-none disabled:opacity-50"
+    >
+      <option value="">No category</option>
+      {Object.entries(DIRECTION_CATEGORIES).map(([id, label]) => (
+        <option key={id} value={id}>{label}</option>
+      ))}
+    </select>
+    <input
+      type="number"
+      min={0}
+      max={10}
+      step={0.5}
+      value={direction.weight}
+      onChange={(e) => onChange({ weight: Math.max(0, Number(e.target.value) || 0) })}
+      disabled={readOnly}
+      title="Weight: relative chance of being drawn"
+      className="w-16 bg-gray-700 rounded px-1.5 py-0.5 text-sm text-gray-200 focus:outline-none disabled:opacity-50"
+    />
+    {!readOnly && (
+      <button type="button" onClick={onDelete} title="Remove direction" className="text-gray-400 hover:text-red-400">
+        <Trash2 className="w-4 h-4" />
+      </button>
+    )}
+  </div>
+);
+
+const boundValue = (text: string) => (text === '' ? undefined : Math.max(0, Math.floor(Number(text)) || 0));
+
+// Per-category bounds on each run's directions for one mode
+const MixEditor: React.FC<{ mode: Mode; library: DirectionLibrary }> = ({ mode, library }) => {
+  const { directionMix, setDirectionMix } = useDirections();
+  const mix = directionMix(mode);
+
+  const setBound = (category: DirectionCategory, bound: 'min' | 'max', text: string) => {
+    const next: DirectionMix = { ...mix, [category]: { ...mix[category], [bound]: boundValue(text) } };
+    const { min, max } = next[category]!;
+    if (min === undefined && max === undefined) delete next[category];
+    setDirectionMix(mode, next);
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-700 bg-gray-800/60 p-3 space-y-2 text-xs sm:text-sm text-gray-400">
+      <div className="flex items-center justify-between gap-2">
+        <span>Mix for each {modeLabel(mode)} run (blank = no limit)</span>
+        <button
+          type="button"
+          onClick={() => setDirectionMix(mode, null)}
+          title="Restore the default mix for this mode"
+          className="flex items-center space-x-1 text-gray-400 hover:text-gray-200"
+        >
+          <RotateCcw className="w-3 h-3" />
+          <span>Default</span>
+        </button>
+      </div>
+      <div className="grid grid-cols-[1fr_auto_auto_auto] items-center gap-x-2 gap-y-1">
+        <span />
+        <span>Min</span>
+        <span>Max</span>
+        <span className="text-gray-500">In library</span>
+        {(Object.entries(DIRECTION_CATEGORIES) as [DirectionCategory, string][]).map(([category, label]) => (
+          <React.Fragment key={category}>
+            <span className="text-gray-300">{label}</span>
+            {(['min', 'max'] as const).map((bound) => (
+              <input
+                key={bound}
+                type="number"
+                min={0}
+                value={mix[category]?.[bound] ?? ''}
+                onChange={(e) => setBound(category, bound, e.target.value)}
+                aria-label={`${label} ${bound}`}
+                className="w-14 bg-gray-700 rounded px-1.5 py-0.5 text-gray-200 focus:outline-none"
+              />
+            ))}
+            <span className="text-gray-500 text-right">
+              {library.directions.filter((direction) => direction.category === category && isDrawable(direction)).length}
+            </span>
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export const DirectionsView: React.FC<{ onBack: () => void }> = ({ onBack }) => {
+  const { mode } = useMode();
+  const { libraries, error, activeLibrary, selectLibrary, saveLibraries, deleteLibrary } = useDirections();
+  const [libraryMode, setLibraryMode] = useState<Mode>(mode);
+  const [selectedId, setSelectedId] = useState(() => activeLibrary(mode).id);
+  const [newDirection, setNewDirection] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const modeLibraries = libraries.filter((library) => library.mode === libraryMode);
+  const selected = modeLibraries.find((library) => library.id === selectedId) ?? modeLibraries[0];
+  const isActive = activeLibrary(libraryMode).id === selected.id;
+  const drawableCount = selected.directions.filter(isDrawable).length;
+
+  const update = (changes: Partial<DirectionLibrary>) => saveLibraries([{ ...selected, ...changes }]);
+
+  const updateDirection = (id: string, changes: Partial<Direction>) =>
+    update({ directions: selected.directions.map((direction) => (direction.id === id ? { ...direction, ...changes } : direction)) });
+
+  const addLibraries = (added: DirectionLibrary[]) => {
+    saveLibraries(added);
+    const first = added[0];
+    setLibraryMode(first.mode);
+    setSelectedId(first.id);
+  };
+
+  const handleAddDirection = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newDirection.trim()) return;
+    update({ directions: [...selected.directions, createDirection(newDirection)] });
+    setNewDirection('');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const name = file.name.replace(/\.[^.]+$/, '') || 'Imported directions';
+      addLibraries(parseLibraries(await file.text(), { name, mode: libraryMode }));
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleExport = () => {
+    const filename = `${selected.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'directions'}.json`;
+    downloadFile(filename, serializeLibraries([selected]), 'application/json');
+  };
+
+  return (
+    <div className="w-full max-w-full sm:max-w-5xl space-y-4">
+      <button type="button" onClick={onBack} className="flex items-center space-x-1 text-sm text-gray-400 hover:text-gray-200">
+        <ArrowLeft className="w-4 h-4" />
+        <span>Back to ideas</span>
+      </button>
+
+      {error && <p className="text-xs sm:text-sm text-red-400">{error}</p>}
+      {importError && <p className="text-xs sm:text-sm text-red-400">Import failed: {importError}</p>}
+
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="sm:w-64 flex-shrink-0 space-y-2">
+          <select
+            value={libraryMode}
+            onChange={(e) => setLibraryMode(e.target.value as Mode)}
+            aria-label="Libraries for mode"
+            className="w-full bg-gray-800 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-gray-300 focus:outline-none"
+          >
+            {listModes().map((definition) => (
+              <option key={definition.id} value={definition.id}>{definition.labels.name} libraries</option>
+            ))}
+          </select>
+
+          {modeLibraries.map((library) => (
+            <button
+              key={library.id}
+              type="button"
+              onClick={() => setSelectedId(library.id)}
+              className={`w-full text-left rounded-lg px-3 py-2 border transition-colors ${
+                library.id === selected.id
+                  ? 'bg-indigo-600/20 border-indigo-500 text-gray-100'
+                  : 'bg-gray-800 border-gray-700 text-gray-300 hover:border-indigo-500'
+              }`}
+            >
+              <span className="block text-sm font-medium truncate">{library.name}</span>
+              <span className="block text-xs text-gray-500">
+                {library.directions.length} directions
+                {library.builtIn && ' · read-only'}
+                {activeLibrary(libraryMode).id === library.id && ' · in use'}
+              </span>
+            </button>
+          ))}
+
+          <div className="flex gap-2 pt-2 border-t border-gray-800">
+            <button
+              type="button"
+              onClick={() => addLibraries([createLibrary('New library', libraryMode)])}
+              className="flex-grow text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg text-sm px-3 py-1.5 flex items-center justify-center space-x-1"
+            >
+              <FolderPlus className="w-4 h-4" />
+              <span>New library</span>
+            </button>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              title="Import libraries from a JSON or text file"
+              className="p-1.5 rounded-lg bg-gray-800 border border-gray-700 text-gray-300 hover:bg-gray-700"
+            >
+              <Upload className="w-4 h-4" />
+            </button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json,text/plain,.txt" onChange={handleImport} className="hidden" />
+          </div>
+        </div>
+
+        <div className="flex-grow min-w-0 space-y-3">
+          <div className="flex items-center gap-2">
+            {selected.builtIn ? (
+              <h2 className="flex-grow text-xl sm:text-2xl font-bold text-gray-100">{selected.name}</h2>
+            ) : (
+              <input
+                value={selected.name}
+                onChange={(e) => update({ name: e.target.value })}
+                aria-label="Library name"
+                className="flex-grow bg-transparent text-xl sm:text-2xl font-bold text-gray-100 border-b border-transparent focus:border-indigo-500 focus:outline-none"
+              />
+            )}
+            <button
+              type="button"
+              onClick={() => addLibraries([duplicateLibrary(selected)])}
+              title="Duplicate library"
+              className="p-1.5 rounded text-gray-400 hover:text-gray-100 hover:bg-gray-800"
+            >
+              <Copy className="w-5 h-5" />
+            </button>
+            <button
+              type="button"
+              onClick={handleExport}
+              title="Export library as JSON"
+              className="p-1.5 rounded text-gray-400 hover:text-gray-100 hover:bg-gray-800"
+            >
+              <Download className="w-5 h-5" />
+            </button>
+            {!selected.builtIn && (
+              <button
+                type="button"
+                onClick={() => deleteLibrary(selected.id)}
+                title="Delete library"
+                className="p-1.5 rounded text-gray-400 hover:text-red-400 hover:bg-gray-800"
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-xs sm:text-sm text-gray-400">
+            <span>{drawableCount} of {selected.directions.length} directions enabled</span>
+            {isActive ? (
+              <span className="text-indigo-400">· Used for {modeLabel(libraryMode)} runs</span>
+            ) : (
+              <button
+                type="button"
+                onClick={() => selectLibrary(libraryMode, selected.id)}
+                disabled={!drawableCount}
+                className="text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-lg px-2 py-1 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Use for {modeLabel(libraryMode)} runs
+              </button>
+            )}
+          </div>
+          <MixEditor mode={libraryMode} library={selected} />
+
+          {selected.builtIn && (
+            <p className="text-xs sm:text-sm text-gray-500">Built-in libraries are read-only. Duplicate this one to tune it.</p>
+          )}
+
+          {!selected.builtIn && (
+            <form onSubmit={handleAddDirection} className="flex gap-2">
+              <input
+                value={newDirection}
+                onChange={(e) => setNewDirection(e.target.value)}
+                placeholder="Add a direction, e.g. “Design for rural clinics”"
+                className="flex-grow bg-gray-800 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-gray-100 placeholder-gray-500 focus:outline-none focus:border-indigo-500"
+              />
+              <button
+                type="submit"
+                disabled={!newDirection.trim()}
+                title="Add direction"
+                className="text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg px-3 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </form>
+          )}
+
+          <div className="space-y-1.5">
+            {selected.directions.map((direction) => (
+              <DirectionRow
+                key={direction.id}
+                direction={direction}
+                readOnly={!!selected.builtIn}
+                onChange={(changes) => updateDirection(direction.id, changes)}
+                onDelete={() => update({ directions: selected.directions.filter((other) => other.id !== direction.id) })}
+              />
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import { EXPORT_FORMATS, exportSource } from '../export/exporters';
+import { DEFAULT_EXPORT_OPTIONS, type ExportFormat, type ExportOptions, type ExportSource } from '../export/types';
+import { downloadFile } from '../utils/download';
+
+const OPTION_LABELS: Record<keyof ExportOptions, string> = {
+  includeHistory: 'Iteration history',
+  includeRatings: 'Ratings',
+  includeFeedback: 'Critic feedback',
+};
+
+export const ExportMenu: React.FC<{ source: ExportSource }> = ({ source }) => {
+  const [format, setFormat] = useState<ExportFormat>('markdown');
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+
+  // Collections carry neither history nor feedback
+  const visibleOptions = (Object.keys(OPTION_LABELS) as (keyof ExportOptions)[])
+    .filter((key) => source.kind === 'conversation' || key === 'includeRatings');
+
+  const handleExport = () => {
+    const file = exportSource(source, format, options);
+    downloadFile(file.filename, file.content, file.mimeType);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 sm:gap-3 text-xs sm:text-sm text-gray-300">
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as ExportFormat)}
+        aria-label="Export format"
+        className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 focus:outline-none focus:border-indigo-500"
+      >
+        {EXPORT_FORMATS.map(({ id, label }) => (
+          <option key={id} value={id}>{label}</option>
+        ))}
+      </select>
+      {visibleOptions.map((key) => (
+        <label key={key} className="flex items-center space-x-1 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={options[key]}
+            onChange={(e) => setOptions({ ...options, [key]: e.target.checked })}
+            className="accent-indigo-500"
+          />
+          <span>{OPTION_LABELS[key]}</span>
+        </label>
+      ))}
+      <button
+        type="button"
+        onClick={handleExport}
+        className="text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg px-2 sm:px-3 py-1 flex items-center space-x-1 transition-colors"
+      >
+        <Download className="w-3 h-3 sm:w-4 sm:h-4" />
+        <span>Export</span>
+      </button>
+    </div>
+  );
+};
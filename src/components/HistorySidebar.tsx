@@ -0,0 +1,206 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { X, Search, RotateCcw, Trash2, Upload } from 'lucide-react';
+import { useHistory } from '../context/HistoryContext';
+import { useModeRuns } from '../context/AIContext';
+import { useMode } from '../context/ModeContext';
+import { importSessions, type SkippedRecord } from '../export/importer';
+import type { Conversation, Mode } from '../types';
+import { DEFAULT_MODE, isRegisteredMode, listModes, modeLabel } from '../pipeline/modes/registry';
+
+type DateFilter = 'all' | 'today' | 'week' | 'month';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const DATE_FILTERS: Record<DateFilter, { label: string; since: () => number }> = {
+  all: { label: 'Any time', since: () => 0 },
+  today: { label: 'Today', since: () => new Date().setHours(0, 0, 0, 0) },
+  week: { label: 'Last 7 days', since: () => Date.now() - 7 * DAY },
+  month: { label: 'Last 30 days', since: () => Date.now() - 30 * DAY },
+};
+
+const matchesSearch = (session: Conversation, query: string) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return session.prompt.toLowerCase().includes(needle) ||
+    session.ideas.some((idea) => idea.title.toLowerCase().includes(needle));
+};
+
+// `onOpenSession` runs instead of `onClose` when a session is opened or rerun, so the app can show its ideas
+export const HistorySidebar: React.FC<{ isOpen: boolean; onClose: () => void; onOpenSession: () => void }> = ({
+  isOpen,
+  onClose,
+  onOpenSession,
+}) => {
+  const { sessions, isLoaded, error, addSessions, deleteSession } = useHistory();
+  const { setMode } = useMode();
+  const runFor = useModeRuns();
+
+  const [query, setQuery] = useState('');
+  const [modeFilter, setModeFilter] = useState<Mode | 'all'>('all');
+  const [dateFilter, setDateFilter] = useState<DateFilter>('all');
+  const [importReport, setImportReport] = useState<{ imported: number; skipped: SkippedRecord[]; error?: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const visible = useMemo(() => {
+    const since = DATE_FILTERS[dateFilter].since();
+    return sessions
+      .filter((session) => modeFilter === 'all' || (session.mode ?? DEFAULT_MODE) === modeFilter)
+      .filter((session) => session.timestamp >= since)
+      .filter((session) => matchesSearch(session, query))
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }, [sessions, query, modeFilter, dateFilter]);
+
+  // Sessions of modes that are no longer registered can be browsed but not opened
+  const canOpen = (session: Conversation) => isRegisteredMode(session.mode ?? DEFAULT_MODE);
+
+  const open = (session: Conversation) => {
+    const mode = session.mode ?? DEFAULT_MODE;
+    setMode(mode);
+    runFor(mode).openConversation(session);
+    onOpenSession();
+  };
+
+  // Checked for repeats against the mode's other sessions, not the one being rerun
+  const rerun = (session: Conversation) => {
+    const mode = session.mode ?? DEFAULT_MODE;
+    setMode(mode);
+    runFor(mode).generateIdeas(session.prompt, {
+      history: sessions.filter((other) => other.id !== session.id && (other.mode ?? DEFAULT_MODE) === mode),
+    });
+    onOpenSession();
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const result = importSessions(await file.text(), sessions.map((session) => session.id));
+      await addSessions(result.conversations);
+      setImportReport({ imported: result.conversations.length, skipped: result.skipped });
+    } catch (error) {
+      setImportReport({ imported: 0, skipped: [], error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-40 flex">
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+      <aside className="relative z-50 w-full max-w-sm h-full bg-gray-900 border-r border-gray-800 shadow-xl flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-800">
+          <h2 className="text-lg font-bold text-gray-100">History</h2>
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              title="Import sessions from a JSON file"
+              className="text-gray-400 hover:text-gray-200"
+            >
+              <Upload className="w-5 h-5" />
+            </button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+            <button type="button" onClick={onClose} title="Close history" className="text-gray-400 hover:text-gray-200">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 space-y-2 border-b border-gray-800">
+          <div className="relative">
+            <Search className="w-4 h-4 text-gray-500 absolute left-2.5 top-1/2 -translate-y-1/2" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search prompts and idea titles"
+              className="w-full bg-gray-800 border border-gray-700 rounded-lg pl-8 pr-2 py-1.5 text-sm text-gray-100 placeholder-gray-500 focus:outline-none focus:border-indigo-500"
+            />
+          </div>
+          <div className="flex gap-2">
+            <select
+              value={modeFilter}
+              onChange={(e) => setModeFilter(e.target.value as Mode | 'all')}
+              aria-label="Filter by mode"
+              className="flex-1 bg-gray-800 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-gray-300 focus:outline-none"
+            >
+              <option value="all">All modes</option>
+              {listModes().map((definition) => (
+                <option key={definition.id} value={definition.id}>{definition.labels.name}</option>
+              ))}
+            </select>
+            <select
+              value={dateFilter}
+              onChange={(e) => setDateFilter(e.target.value as DateFilter)}
+              aria-label="Filter by date"
+              className="flex-1 bg-gray-800 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-gray-300 focus:outline-none"
+            >
+              {Object.entries(DATE_FILTERS).map(([id, { label }]) => (
+                <option key={id} value={id}>{label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="flex-grow overflow-y-auto p-4 space-y-2">
+          {error && <p className="text-xs text-red-400">{error}</p>}
+          {importReport && (
+            <div className="rounded-lg border border-gray-700 bg-gray-800/60 p-2 text-xs text-gray-300 space-y-1">
+              <div className="flex justify-between gap-2">
+                <span>
+                  {importReport.error
+                    ? <span className="text-red-400">Import failed: {importReport.error}</span>
+                    : `Imported ${importReport.imported} session${importReport.imported === 1 ? '' : 's'}${
+                        importReport.skipped.length ? `, skipped ${importReport.skipped.length}:` : '.'}`}
+                </span>
+                <button type="button" onClick={() => setImportReport(null)} title="Dismiss" className="text-gray-500 hover:text-gray-200">
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+              {importReport.skipped.map((record) => (
+                <p key={`${record.index}-${record.reason}`} className="text-gray-400">
+                  #{record.index + 1}{record.id ? ` (${record.id})` : ''}: {record.reason}
+                </p>
+              ))}
+            </div>
+          )}
+          {isLoaded && !visible.length && (
+            <p className="text-sm text-gray-500">{sessions.length ? 'No sessions match.' : 'No saved sessions yet.'}</p>
+          )}
+          {visible.map((session) => (
+            <div key={session.id} className="rounded-lg border border-gray-700 bg-gray-800 hover:border-indigo-500 transition-colors">
+              <button type="button" onClick={() => open(session)} disabled={!canOpen(session)} className="w-full text-left p-3 disabled:cursor-default">
+                <p className="text-sm text-gray-100 line-clamp-2">{session.prompt}</p>
+                <p className="mt-1 text-xs text-gray-500">
+                  {new Date(session.timestamp).toLocaleString()}
+                  {' · '}{modeLabel(session.mode)}
+                  {' · '}{session.ideas.length} ideas
+                </p>
+              </button>
+              <div className="flex justify-end gap-1 px-2 pb-2">
+                <button
+                  type="button"
+                  onClick={() => rerun(session)}
+                  disabled={!canOpen(session)}
+                  title="Run this prompt again"
+                  className="p-1.5 rounded text-gray-400 hover:text-gray-100 hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-transparent"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => deleteSession(session.id)}
+                  title="Delete session"
+                  className="p-1.5 rounded text-gray-400 hover:text-red-400 hover:bg-gray-700"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </aside>
+    </div>
+  );
+};
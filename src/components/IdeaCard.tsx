@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { Sparkles, Wrench, Zap, RefreshCw, Square, FileText, Star, Compass, Layers, AlertTriangle } from 'lucide-react';
+import { EXPANSION_TEMPLATES } from '../pipeline/expansion';
+import { HIGH_DISAGREEMENT, ratingSpread } from '../pipeline/ensemble';
+import type { Collection, ExpansionTemplate, Idea, IdeaExpansion, RevisionAction } from '../types';
+import { ConceptDocument } from './ConceptDocument';
+
+const REVISION_BUTTONS: { action: RevisionAction; label: string; Icon: typeof Sparkles }[] = [
+  { action: 'refine', label: 'Refine', Icon: Sparkles },
+  { action: 'practical', label: 'More practical', Icon: Wrench },
+  { action: 'wilder', label: 'Wilder', Icon: Zap },
+  { action: 'regenerate', label: 'Regenerate', Icon: RefreshCw },
+];
+
+const BUSY_LABELS = { revising: 'Stop revising', expanding: 'Stop expanding' };
+
+interface IdeaCardProps {
+  idea: Idea;
+  // Defaults to the idea's own direction
+  direction?: string;
+  // Per-card actions are only offered once a run has finished
+  onRevise?: (action: RevisionAction) => void;
+  onExpand?: (template: ExpansionTemplate) => void;
+  onMoreLikeThis?: () => void;
+  onCancel?: () => void;
+  expansions?: IdeaExpansion[];
+  busy?: 'revising' | 'expanding' | null;
+  disabled?: boolean;
+  isFavorite?: boolean;
+  onToggleFavorite?: () => void;
+  // Collections the idea can be saved to, besides Favorites
+  collections?: Collection[];
+  onSaveTo?: (collectionId: string) => void;
+}
+
+export const IdeaCard: React.FC<IdeaCardProps> = ({
+  idea,
+  direction = idea.direction,
+  onRevise,
+  onExpand,
+  onMoreLikeThis,
+  onCancel,
+  expansions = [],
+  busy = null,
+  disabled = false,
+  isFavorite = false,
+  onToggleFavorite,
+  collections = [],
+  onSaveTo,
+}) => {
+  const [template, setTemplate] = useState<ExpansionTemplate>('concept');
+  // Set when a critic ensemble scored the idea
+  const judges = Object.entries(idea.judgeRatings ?? {});
+  const spread = ratingSpread(judges.map(([, rating]) => rating));
+  const contested = spread >= HIGH_DISAGREEMENT;
+
+  return (
+    <div className={`bg-gray-800 rounded-lg shadow-lg shadow-gray-900/30 p-4 sm:p-6 border transition-all hover:border-indigo-500 ${
+      busy ? 'border-indigo-500 animate-pulse' : 'border-gray-700'
+    }`}>
+      <div className="flex items-start justify-between gap-2 mb-2 sm:mb-3">
+        <h3 className="text-lg sm:text-xl font-bold text-gray-100">{idea.title}</h3>
+        {onToggleFavorite && (
+          <button
+            type="button"
+            onClick={onToggleFavorite}
+            title={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+            className={`flex-shrink-0 p-1 rounded transition-colors ${isFavorite ? 'text-yellow-400' : 'text-gray-500 hover:text-yellow-400'}`}
+          >
+            <Star className={`w-5 h-5 ${isFavorite ? 'fill-current' : ''}`} />
+          </button>
+        )}
+      </div>
+      {direction && (
+        <div
+          title="Creative direction this idea was generated under"
+          className="inline-flex items-center space-x-1 mb-2 sm:mb-3 rounded-full bg-gray-700/60 border border-gray-600 px-2 py-0.5 text-xs text-gray-300"
+        >
+          <Compass className="w-3 h-3 text-indigo-400 flex-shrink-0" />
+          <span>{direction}</span>
+        </div>
+      )}
+      <div className="prose prose-sm sm:prose prose-invert max-w-none space-y-2 sm:space-y-4">
+        {idea.description.split('\n\n').map((paragraph, index) => (
+          <p key={index} className="text-sm sm:text-base text-gray-300 leading-relaxed">
+            {paragraph}
+          </p>
+        ))}
+      </div>
+      {idea.rating > 0 && (
+        <div className="mt-3 sm:mt-4 text-xs sm:text-sm font-medium text-gray-400">
+          Rating: <span className="text-indigo-400">{idea.rating}/100</span>
+          {idea.elo !== undefined && (
+            <span title="Strength from head-to-head comparisons across the run" className="ml-3">
+              Elo: <span className="text-indigo-400">{idea.elo}</span>
+            </span>
+          )}
+          {judges.length > 1 && (
+            <div className="mt-1 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs font-normal">
+              {judges.map(([judge, rating]) => (
+                <span key={judge}>{judge}: <span className="text-gray-300">{rating}</span></span>
+              ))}
+              <span
+                title="Standard deviation of the judges' ratings"
+                className={`flex items-center gap-1 ${contested ? 'text-amber-400' : 'text-gray-500'}`}
+              >
+                {contested && <AlertTriangle className="w-3 h-3" />}
+                <span>{contested ? 'Judges disagree' : 'Judges agree'} (±{Math.round(spread)})</span>
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+      {(onRevise || onExpand || onMoreLikeThis) && (
+        <div className="mt-3 sm:mt-4 flex flex-wrap gap-2">
+          {busy ? (
+            <button
+              type="button"
+              onClick={onCancel}
+              title={BUSY_LABELS[busy]}
+              className="text-white bg-gray-700 hover:bg-gray-600 rounded-lg text-xs sm:text-sm px-2 sm:px-3 py-1 sm:py-1.5 flex items-center space-x-1 transition-colors"
+            >
+              <Square className="w-3 h-3 sm:w-4 sm:h-4 fill-current" />
+              <span>Stop</span>
+            </button>
+          ) : (
+            <>
+              {onRevise && REVISION_BUTTONS.map(({ action, label, Icon }) => (
+                <button
+                  key={action}
+                  type="button"
+                  onClick={() => onRevise(action)}
+                  disabled={disabled}
+                  className="text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-lg text-xs sm:text-sm px-2 sm:px-3 py-1 sm:py-1.5 flex items-center space-x-1 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Icon className="w-3 h-3 sm:w-4 sm:h-4" />
+                  <span>{label}</span>
+                </button>
+              ))}
+              {onMoreLikeThis && direction && (
+                <button
+                  type="button"
+                  onClick={onMoreLikeThis}
+                  disabled={disabled}
+                  title={`Generate a new batch using only “${direction}”`}
+                  className="text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-lg text-xs sm:text-sm px-2 sm:px-3 py-1 sm:py-1.5 flex items-center space-x-1 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Layers className="w-3 h-3 sm:w-4 sm:h-4" />
+                  <span>More like this</span>
+                </button>
+              )}
+              {onSaveTo && collections.length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) => e.target.value && onSaveTo(e.target.value)}
+                  aria-label="Save to collection"
+                  className="bg-gray-700 text-gray-300 rounded-lg text-xs sm:text-sm px-2 py-1 sm:py-1.5 focus:outline-none"
+                >
+                  <option value="">Save to…</option>
+                  {collections.map((collection) => (
+                    <option key={collection.id} value={collection.id} className="bg-gray-800">{collection.name}</option>
+                  ))}
+                </select>
+              )}
+              {onExpand && (
+                <div className="flex items-center rounded-lg bg-gray-700 text-xs sm:text-sm">
+                  <select
+                    value={template}
+                    onChange={(e) => setTemplate(e.target.value as ExpansionTemplate)}
+                    disabled={disabled}
+                    aria-label="Document template"
+                    className="bg-transparent text-gray-300 rounded-l-lg pl-2 py-1 sm:py-1.5 focus:outline-none disabled:opacity-50"
+                  >
+                    {Object.entries(EXPANSION_TEMPLATES).map(([id, { label }]) => (
+                      <option key={id} value={id} className="bg-gray-800">{label}</option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => onExpand(template)}
+                    disabled={disabled}
+                    className="text-gray-300 hover:bg-gray-600 rounded-r-lg px-2 sm:px-3 py-1 sm:py-1.5 flex items-center space-x-1 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <FileText className="w-3 h-3 sm:w-4 sm:h-4" />
+                    <span>Expand</span>
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+      {expansions.map((expansion) => (
+        <ConceptDocument key={expansion.template} expansion={expansion} />
+      ))}
+    </div>
+  );
+};
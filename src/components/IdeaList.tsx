@@ -1,25 +1,43 @@
 import React from 'react';
 import { useAI } from '../context/AIContext';
-import { useAI as useBadAI } from '../context/BadAIContext';
 import { useMode } from '../context/ModeContext';
-import ReactMarkdown from 'react-markdown';
+import { useCollections } from '../context/CollectionsContext';
+import { FAVORITES_ID, toSavedIdea } from '../utils/collections';
+import { directionOf } from '../pipeline/directions';
+import { ratingSpread } from '../pipeline/ensemble';
+import { getMode } from '../pipeline/modes/registry';
+import { IdeaCard } from './IdeaCard';
+import { ExportMenu } from './ExportMenu';
+import { SharePanel } from './SharePanel';
 
 export const IdeaList: React.FC = () => {
   const { mode } = useMode();
-  const goodContext = useAI();
-  const badContext = useBadAI();
-  
-  // Use the appropriate context based on mode
-  const { conversation, isLoading } = mode === 'good' 
-    ? goodContext 
-    : badContext;
+  const { collections, isFavorite, toggleFavorite, addIdea } = useCollections();
+  const savableCollections = collections.filter((collection) => collection.id !== FAVORITES_ID);
+
+  const {
+    conversation,
+    isLoading,
+    partialIdeas,
+    revisingIndex,
+    expandingIndex,
+    canExpand,
+    reviseIdea,
+    expandIdea,
+    moreLikeThis,
+    cancel,
+  } = useAI();
     
   // Check if we're in development environment
   const isDevelopment = import.meta.env.DEV;
 
   if (isLoading) {
+    // Ideas appear one by one as they stream in; the skeleton marks what is still pending
     return (
-      <div className="w-full max-w-full sm:max-w-3xl">
+      <div className="w-full max-w-full sm:max-w-3xl space-y-3 sm:space-y-4">
+        {partialIdeas.map((idea) => (
+          <IdeaCard key={idea.id} idea={idea} />
+        ))}
         <div className="bg-gray-800 rounded-lg shadow-lg shadow-gray-900/30 p-4 sm:p-6 space-y-3 sm:space-y-4 border border-gray-700">
           <div className="animate-pulse space-y-3 sm:space-y-4">
             <div className="h-3 sm:h-4 bg-gray-700 rounded w-3/4"></div>
@@ -68,7 +86,13 @@ export const IdeaList: React.FC = () => {
                 <h3 className="text-yellow-400">Iteration History:</h3>
                 {conversation.iterationHistory.map((iteration, index) => (
                   <div key={index} className="mt-3 sm:mt-4 border-t border-gray-700 pt-3 sm:pt-4">
-                    <h4 className="text-blue-400">Iteration {index + 1}</h4>
+                    <h4 className="text-blue-400">
+                      Iteration {index + 1}
+                      {conversation.bestIteration === index + 1 && <span className="text-green-400"> (best)</span>}
+                      {iteration.revision && (
+                        <span className="text-gray-400"> ({iteration.revision.action} idea {iteration.revision.index + 1})</span>
+                      )}
+                    </h4>
                     <div className="pl-2 sm:pl-4 space-y-1 sm:space-y-2">
                       <div>
                         <span className="text-gray-400">Score: </span>
@@ -78,6 +102,36 @@ export const IdeaList: React.FC = () => {
                         <span className="text-gray-400">Ratings: </span>
                         <span className="text-green-400">[{iteration.ratings.join(', ')}]</span>
                       </div>
+                      {iteration.judges && (
+                        <div>
+                          <span className="text-gray-400">Judges:</span>
+                          {iteration.judges.map((verdict) => (
+                            <div key={verdict.judge} className="pl-2 sm:pl-4">
+                              <span className="text-blue-400">{verdict.judge}: </span>
+                              <span className="text-green-400">[{verdict.ratings.join(', ')}] {verdict.overallScore}</span>
+                            </div>
+                          ))}
+                          <div className="pl-2 sm:pl-4">
+                            <span className="text-gray-400">Disagreement (±): </span>
+                            <span className="text-amber-400">
+                              [{iteration.ratings.map((_, slot) =>
+                                Math.round(ratingSpread(iteration.judges!.map((verdict) => verdict.ratings[slot])))).join(', ')}]
+                            </span>
+                          </div>
+                        </div>
+                      )}
+                      {iteration.duplicates && (
+                        <div>
+                          <span className="text-gray-400">Near-duplicates:</span>
+                          {iteration.duplicates.map((flag, flagIndex) => (
+                            <div key={flagIndex} className="pl-2 sm:pl-4">
+                              <span className="text-blue-400">#{flag.index + 1} {flag.title}: </span>
+                              <span className="text-amber-400">{Math.round(flag.similarity * 100)}% like "{flag.similarTo.title}" ({flag.similarTo.source}{flag.similarTo.iteration ? ` ${flag.similarTo.iteration}` : ''})</span>
+                              <span className="text-gray-400"> - {flag.replaced ? 'replaced' : 'kept'}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
                       <div>
                         <span className="text-gray-400">Ideas:</span>
                         <pre className="whitespace-pre-wrap overflow-x-auto text-gray-200 mt-1 sm:mt-2">
@@ -93,12 +147,43 @@ export const IdeaList: React.FC = () => {
                 ))}
               </div>
 
+              {conversation.tournament && (
+                <div>
+                  <h3 className="text-yellow-400">Tournament ({conversation.tournament.rounds} rounds, {conversation.tournament.matches.length} matches):</h3>
+                  {conversation.tournament.standings.map((standing, index) => (
+                    <div key={standing.ideaId} className="pl-2 sm:pl-4">
+                      <span className="text-blue-400">{index + 1}. {standing.title}: </span>
+                      <span className="text-green-400">{standing.elo}</span>
+                      <span className="text-gray-400"> ({standing.wins}W {standing.losses}L {standing.ties}T)</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {!!conversation.parseLog?.length && (
+                <div>
+                  <h3 className="text-yellow-400">JSON Repairs &amp; Retries:</h3>
+                  {conversation.parseLog.map((entry, index) => (
+                    <div key={index} className="pl-2 sm:pl-4">
+                      <span className="text-blue-400">{entry.stage} (iteration {entry.iteration}, attempt {entry.attempt}): </span>
+                      <span className={entry.outcome === 'repaired' ? 'text-green-400' : 'text-red-400'}>{entry.outcome}</span>
+                      {entry.repairs && <span className="text-gray-400"> - {entry.repairs.join(', ')}</span>}
+                      {entry.error && <span className="text-gray-400"> - {entry.error}</span>}
+                    </div>
+                  ))}
+                </div>
+              )}
+
               <div>
                 <h3 className="text-yellow-400">Final Stats:</h3>
                 <pre className="whitespace-pre-wrap overflow-x-auto">
                   Total Iterations: {conversation.iteration}
                   Best Score: {conversation.bestScore}
+                  Best Iteration: {conversation.bestIteration ?? 'n/a'}
                   Improvement Threshold Met: {conversation.improvementThresholdMet ? 'Yes' : 'No'}
+                  Diversity: {conversation.diversity ?? 'n/a'}
+                  Templates: {conversation.templates?.map((template) => `${template.id}@${template.version}`).join(', ') ?? 'n/a'}
+                  Tokens Used: {conversation.usage?.totalTokens ?? 'n/a'}
                 </pre>
               </div>
             </div>
@@ -108,25 +193,37 @@ export const IdeaList: React.FC = () => {
 
       {/* Ideas Section */}
       <div className="space-y-3 sm:space-y-4">
-        <h2 className="text-xl sm:text-2xl font-bold text-gray-100">
-          {mode === 'good' ? 'Final Ideas' : 'Ideas?'}
-        </h2>
-        {conversation.ideas.map((idea) => (
-          <div key={idea.id} className="bg-gray-800 rounded-lg shadow-lg shadow-gray-900/30 p-4 sm:p-6 border border-gray-700 transition-all hover:border-indigo-500">
-            <h3 className="text-lg sm:text-xl font-bold mb-2 sm:mb-3 text-gray-100">{idea.title}</h3>
-            <div className="prose prose-sm sm:prose prose-invert max-w-none space-y-2 sm:space-y-4">
-              {idea.description.split('\n\n').map((paragraph, index) => (
-                <p key={index} className="text-sm sm:text-base text-gray-300 leading-relaxed">
-                  {paragraph}
-                </p>
-              ))}
-            </div>
-            {idea.rating > 0 && (
-              <div className="mt-3 sm:mt-4 text-xs sm:text-sm font-medium text-gray-400">
-                Rating: <span className="text-indigo-400">{idea.rating}/100</span>
-              </div>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+          <div className="flex items-baseline gap-3">
+            <h2 className="text-xl sm:text-2xl font-bold text-gray-100">
+              {getMode(mode)?.labels.resultsHeading}
+            </h2>
+            {conversation.diversity !== undefined && (
+              <span title="How different the ideas are from each other in wording" className="text-xs sm:text-sm text-gray-400">
+                Diversity: <span className="text-indigo-400">{conversation.diversity}/100</span>
+              </span>
             )}
           </div>
+          <ExportMenu source={{ kind: 'conversation', conversation }} />
+        </div>
+        <SharePanel conversation={conversation} />
+        {conversation.ideas.map((idea, index) => (
+          <IdeaCard
+            key={idea.id}
+            idea={idea}
+            direction={directionOf(conversation, index)}
+            onRevise={(action) => reviseIdea(index, action)}
+            onExpand={canExpand ? (template) => expandIdea(index, template) : undefined}
+            onMoreLikeThis={() => moreLikeThis(index)}
+            onCancel={cancel}
+            expansions={conversation.expansions?.filter((expansion) => expansion.ideaId === idea.id)}
+            busy={revisingIndex === index ? 'revising' : expandingIndex === index ? 'expanding' : null}
+            disabled={revisingIndex !== null || expandingIndex !== null}
+            isFavorite={isFavorite(idea.id)}
+            onToggleFavorite={() => toggleFavorite(toSavedIdea(idea, conversation))}
+            collections={savableCollections}
+            onSaveTo={(collectionId) => addIdea(collectionId, toSavedIdea(idea, conversation))}
+          />
         ))}
       </div>
     </div>
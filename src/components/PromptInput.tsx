@@ -1,8 +1,9 @@
 import React, { useState, useEffect } from 'react';
-import { Send, AlertCircle } from 'lucide-react';
+import { Send, AlertCircle, Square, Info, ChevronDown, ChevronRight, RotateCcw } from 'lucide-react';
 import { useAI } from '../context/AIContext';
-import { useAI as useBadAI } from '../context/BadAIContext';
 import { useMode } from '../context/ModeContext';
+import { MAX_SEED, parseSeed } from '../pipeline/random';
+import { getMode } from '../pipeline/modes/registry';
 
 const MAX_CHARS = 500;
 const MIN_CHARS = 3;
@@ -11,16 +12,11 @@ export const PromptInput: React.FC = () => {
   const [prompt, setPrompt] = useState('');
   const [charCount, setCharCount] = useState(0);
   const [validationError, setValidationError] = useState<string | null>(null);
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [seedText, setSeedText] = useState('');
   const { mode } = useMode();
   
-  // Get the relevant context based on mode
-  const goodContext = useAI();
-  const badContext = useBadAI();
-  
-  // Use the appropriate context based on mode
-  const { generateIdeas, isLoading, error } = mode === 'good' 
-    ? goodContext 
-    : badContext;
+  const { generateIdeas, replay, conversation, cancel, isLoading, isCancelled, error } = useAI();
 
   useEffect(() => {
     setCharCount(prompt.length);
@@ -37,6 +33,10 @@ export const PromptInput: React.FC = () => {
     }
   }, [prompt]);
 
+  // Empty means a fresh random seed for every run
+  const seed = seedText.trim() ? parseSeed(seedText) : undefined;
+  const seedError = seed === null ? `Seed must be a whole number from 0 to ${MAX_SEED}.` : null;
+
   const handlePromptChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const newValue = e.target.value;
     // Prevent adding more characters if max length is reached
@@ -45,23 +45,22 @@ export const PromptInput: React.FC = () => {
     }
   };
 
+  // Submitting while a run is in flight replaces it; generateIdeas cancels the old one
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!prompt.trim() || isLoading || validationError) return;
+    if (!prompt.trim() || validationError || seedError) return;
     
     const sanitizedPrompt = prompt.trim();
-    await generateIdeas(sanitizedPrompt);
+    await generateIdeas(sanitizedPrompt, { seed: seed ?? undefined });
   };
 
   const isSubmitDisabled = !prompt.trim() || 
-    isLoading || 
     !!validationError || 
+    !!seedError || 
     prompt.length < MIN_CHARS || 
     prompt.length > MAX_CHARS;
 
-  const placeholderText = mode === 'good' 
-    ? "Enter your idea prompt..." 
-    : "Enter your bad idea prompt...";
+  const placeholderText = getMode(mode)?.labels.placeholder;
 
   return (
     <form onSubmit={handleSubmit} className="w-full max-w-full sm:max-w-3xl space-y-2">
@@ -70,11 +69,10 @@ export const PromptInput: React.FC = () => {
           value={prompt}
           onChange={handlePromptChange}
           placeholder={placeholderText}
-          className={`w-full p-3 sm:p-4 pr-16 sm:pr-24 text-xs sm:text-sm text-gray-200 border rounded-lg bg-gray-800 focus:ring-indigo-500 focus:border-indigo-500 disabled:bg-gray-900 disabled:cursor-not-allowed ${
+          className={`w-full p-3 sm:p-4 ${isLoading ? 'pr-28 sm:pr-40' : 'pr-16 sm:pr-24'} text-xs sm:text-sm text-gray-200 border rounded-lg bg-gray-800 focus:ring-indigo-500 focus:border-indigo-500 disabled:bg-gray-900 disabled:cursor-not-allowed ${
             validationError ? 'border-red-500' : 'border-gray-700'
           }`}
           rows={3}
-          disabled={isLoading}
         />
         <div className="absolute right-2 sm:right-2.5 bottom-2 sm:bottom-2.5 flex items-center space-x-1 sm:space-x-2">
           <span className={`text-xs sm:text-sm ${
@@ -86,26 +84,94 @@ export const PromptInput: React.FC = () => {
           }`}>
             {charCount}/{MAX_CHARS}
           </span>
+          {isLoading && (
+            <button
+              type="button"
+              onClick={cancel}
+              title="Stop generating"
+              className="text-white bg-gray-700 hover:bg-gray-600 focus:ring-4 focus:outline-none focus:ring-gray-800 font-medium rounded-lg text-xs sm:text-sm px-2 sm:px-4 py-1.5 sm:py-2 flex items-center justify-center space-x-1 transition-colors"
+            >
+              <div className="animate-spin rounded-full h-4 w-4 sm:h-5 sm:w-5 border-b-2 border-white" />
+              <Square className="w-3 h-3 sm:w-4 sm:h-4 fill-current" />
+            </button>
+          )}
           <button
             type="submit"
             disabled={isSubmitDisabled}
+            title={isLoading ? 'Stop the current run and start a new one' : 'Generate ideas'}
             className="text-white bg-indigo-600 hover:bg-indigo-700 focus:ring-4 focus:outline-none focus:ring-indigo-800 font-medium rounded-lg text-xs sm:text-sm px-2 sm:px-4 py-1.5 sm:py-2 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center transition-colors"
           >
-            {isLoading ? (
-              <div className="animate-spin rounded-full h-4 w-4 sm:h-5 sm:w-5 border-b-2 border-white" />
-            ) : (
-              <Send className="w-4 h-4 sm:w-5 sm:h-5" />
-            )}
+            <Send className="w-4 h-4 sm:w-5 sm:h-5" />
           </button>
         </div>
       </div>
       
+      <div className="text-xs sm:text-sm text-gray-400">
+        <button
+          type="button"
+          onClick={() => setShowAdvanced(!showAdvanced)}
+          className="flex items-center space-x-1 hover:text-gray-200"
+        >
+          {showAdvanced ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          <span>Advanced</span>
+        </button>
+        {showAdvanced && (
+          <div className="mt-2 p-3 space-y-2 rounded-lg border border-gray-700 bg-gray-800/60">
+            <div className="flex flex-wrap items-center gap-2">
+              <label htmlFor="run-seed">Seed</label>
+              <input
+                id="run-seed"
+                value={seedText}
+                onChange={(e) => setSeedText(e.target.value)}
+                placeholder="Random"
+                inputMode="numeric"
+                className={`w-36 bg-gray-800 border rounded-lg px-2 py-1 text-gray-200 placeholder-gray-500 focus:outline-none focus:border-indigo-500 ${
+                  seedError ? 'border-red-500' : 'border-gray-700'
+                }`}
+              />
+              <span className="text-gray-500">Same seed and library, same directions.</span>
+            </div>
+            {seedError && <p className="text-red-400">{seedError}</p>}
+            {conversation?.seed !== undefined && (
+              <div className="flex flex-wrap items-center gap-2">
+                <span>
+                  Last run: seed <button
+                    type="button"
+                    onClick={() => setSeedText(String(conversation.seed))}
+                    title="Use this seed"
+                    className="font-mono text-indigo-400 hover:underline"
+                  >
+                    {conversation.seed}
+                  </button>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => replay(conversation)}
+                  title="Run this prompt again with the same seed, directions, models and iteration settings"
+                  className="text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-lg px-2 py-1 flex items-center space-x-1 transition-colors"
+                >
+                  <RotateCcw className="w-3 h-3 sm:w-4 sm:h-4" />
+                  <span>Rerun with same seed</span>
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
       {(validationError || error) && (
         <div className="flex items-start space-x-2 text-red-400 text-xs sm:text-sm p-2 bg-red-900/30 rounded-lg border border-red-800">
           <AlertCircle className="w-4 h-4 sm:w-5 sm:h-5 flex-shrink-0 mt-0.5" />
           <span>{validationError || error}</span>
         </div>
       )}
+
+      {isCancelled && !validationError && !error && (
+        <div className="flex items-start space-x-2 text-gray-400 text-xs sm:text-sm p-2 bg-gray-800/60 rounded-lg border border-gray-700">
+          <Info className="w-4 h-4 sm:w-5 sm:h-5 flex-shrink-0 mt-0.5" />
+          <span>Generation stopped.</span>
+        </div>
+      )}
     </form>
   );
 };
\ No newline at end of file
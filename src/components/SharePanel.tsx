@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { Share2, Copy, Check, Trash2 } from 'lucide-react';
+import type { Conversation } from '../types';
+import { createShare, deleteShare, getOwnedShares, type CreatedShare } from '../utils/share';
+
+const DAY = 24 * 60 * 60;
+
+const EXPIRY_OPTIONS = [
+  { label: 'Never expires', seconds: undefined },
+  { label: 'Expires in 1 day', seconds: DAY },
+  { label: 'Expires in 7 days', seconds: 7 * DAY },
+  { label: 'Expires in 30 days', seconds: 30 * DAY },
+];
+
+export const SharePanel: React.FC<{ conversation: Conversation }> = ({ conversation }) => {
+  const [expiry, setExpiry] = useState(0);
+  const [shares, setShares] = useState<CreatedShare[]>(() => getOwnedShares(conversation.id));
+  const [isSharing, setIsSharing] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // A different conversation may be shown in the same panel instance
+  const [shownId, setShownId] = useState(conversation.id);
+  if (shownId !== conversation.id) {
+    setShownId(conversation.id);
+    setShares(getOwnedShares(conversation.id));
+    setError(null);
+  }
+
+  const handleShare = async () => {
+    setIsSharing(true);
+    setError(null);
+    try {
+      const share = await createShare(conversation, EXPIRY_OPTIONS[expiry].seconds);
+      setShares((current) => [...current, share]);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Could not create a share link');
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const handleDelete = async (share: CreatedShare) => {
+    setError(null);
+    try {
+      await deleteShare(share);
+      setShares((current) => current.filter((existing) => existing.id !== share.id));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Could not delete the share link');
+    }
+  };
+
+  const handleCopy = async (share: CreatedShare) => {
+    await navigator.clipboard.writeText(share.url);
+    setCopiedId(share.id);
+    setTimeout(() => setCopiedId((current) => (current === share.id ? null : current)), 2000);
+  };
+
+  return (
+    <div className="space-y-2 text-xs sm:text-sm text-gray-300">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={expiry}
+          onChange={(e) => setExpiry(Number(e.target.value))}
+          aria-label="Link expiry"
+          className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 focus:outline-none focus:border-indigo-500"
+        >
+          {EXPIRY_OPTIONS.map((option, index) => (
+            <option key={option.label} value={index}>{option.label}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={handleShare}
+          disabled={isSharing}
+          className="text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg px-2 sm:px-3 py-1 flex items-center space-x-1 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Share2 className="w-3 h-3 sm:w-4 sm:h-4" />
+          <span>{isSharing ? 'Sharing…' : 'Share link'}</span>
+        </button>
+      </div>
+
+      {error && <p className="text-red-400">{error}</p>}
+
+      {shares.map((share) => (
+        <div key={share.id} className="flex items-center gap-2 rounded-lg bg-gray-800 border border-gray-700 px-2 py-1">
+          <a href={share.url} target="_blank" rel="noreferrer" className="flex-grow truncate text-indigo-400 hover:underline">
+            {share.url}
+          </a>
+          {share.expiresAt && (
+            <span className="text-gray-500 whitespace-nowrap">until {new Date(share.expiresAt).toLocaleDateString()}</span>
+          )}
+          <button type="button" onClick={() => handleCopy(share)} title="Copy link" className="text-gray-400 hover:text-gray-100">
+            {copiedId === share.id ? <Check className="w-4 h-4 text-green-400" /> : <Copy className="w-4 h-4" />}
+          </button>
+          <button type="button" onClick={() => handleDelete(share)} title="Delete link" className="text-gray-400 hover:text-red-400">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft } from 'lucide-react';
+import { fetchShare, ShareNotFoundError, type SharedConversation } from '../utils/share';
+import { directionOf } from '../pipeline/directions';
+import { modeLabel } from '../pipeline/modes/registry';
+import { IdeaCard } from './IdeaCard';
+
+// Read-only page for a /s/:id permalink; nothing here touches local history
+export const SharedView: React.FC<{ shareId: string }> = ({ shareId }) => {
+  const [share, setShare] = useState<SharedConversation | null>(null);
+  const [error, setError] = useState<{ notFound: boolean; message: string } | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setShare(null);
+    setError(null);
+    fetchShare(shareId, controller.signal)
+      .then(setShare)
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        console.error('❌ Error loading shared ideas:', error);
+        setError({
+          notFound: error instanceof ShareNotFoundError,
+          message: error instanceof Error ? error.message : 'Could not load this link',
+        });
+      });
+    return () => controller.abort();
+  }, [shareId]);
+
+  const backLink = (
+    <a href="/" className="flex items-center space-x-1 text-sm text-gray-400 hover:text-gray-200">
+      <ArrowLeft className="w-4 h-4" />
+      <span>Make your own ideas</span>
+    </a>
+  );
+
+  if (error) {
+    return (
+      <div className="w-full max-w-full sm:max-w-3xl space-y-4">
+        {backLink}
+        <div className="bg-gray-800 rounded-lg p-4 sm:p-6 border border-gray-700">
+          <h2 className="text-lg sm:text-xl font-bold text-gray-100 mb-2">
+            {error.notFound ? 'Link not found' : 'Something went wrong'}
+          </h2>
+          <p className="text-sm sm:text-base text-gray-400">{error.message}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!share) {
+    return (
+      <div className="w-full max-w-full sm:max-w-3xl">
+        <div className="bg-gray-800 rounded-lg shadow-lg shadow-gray-900/30 p-4 sm:p-6 border border-gray-700">
+          <div className="animate-pulse space-y-3 sm:space-y-4">
+            <div className="h-3 sm:h-4 bg-gray-700 rounded w-3/4"></div>
+            <div className="h-3 sm:h-4 bg-gray-700 rounded w-5/6"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const { conversation } = share;
+
+  return (
+    <div className="w-full max-w-full sm:max-w-3xl space-y-3 sm:space-y-4">
+      {backLink}
+      <div>
+        <h2 className="text-xl sm:text-2xl font-bold text-gray-100">“{conversation.prompt}”</h2>
+        <p className="mt-1 text-xs sm:text-sm text-gray-500">
+          {modeLabel(conversation.mode)}
+          {' · '}Shared {new Date(share.createdAt).toLocaleDateString()}
+          {share.expiresAt && <> · Available until {new Date(share.expiresAt).toLocaleString()}</>}
+        </p>
+      </div>
+      {conversation.ideas.map((idea, index) => (
+        <IdeaCard
+          key={idea.id}
+          idea={idea}
+          direction={directionOf(conversation, index)}
+          expansions={conversation.expansions?.filter((expansion) => expansion.ideaId === idea.id)}
+        />
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,161 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import type { Collection, SavedIdea } from '../types';
+import { collectionStore } from '../utils/storage';
+import {
+  FAVORITES_ID,
+  createCollection as newCollection,
+  createFavorites,
+  withIdea,
+  withoutIdea,
+} from '../utils/collections';
+
+interface CollectionsContextType {
+  // Favorites first, then the rest by name
+  collections: Collection[];
+  isLoaded: boolean;
+  error: string | null;
+  isFavorite: (ideaId: string) => boolean;
+  toggleFavorite: (idea: SavedIdea) => void;
+  createCollection: (name: string, tags: string[]) => Collection;
+  updateCollection: (id: string, changes: Partial<Pick<Collection, 'name' | 'tags'>>) => void;
+  deleteCollection: (id: string) => void;
+  addIdea: (collectionId: string, idea: SavedIdea) => void;
+  removeIdea: (collectionId: string, ideaId: string) => void;
+  moveIdea: (fromId: string, toId: string, ideaId: string) => void;
+  copyIdea: (fromId: string, toId: string, ideaId: string) => void;
+}
+
+const CollectionsContext = createContext<CollectionsContextType | undefined>(undefined);
+
+const describeError = (error: unknown) =>
+  `Could not access collections: ${error instanceof Error ? error.message : String(error)}`;
+
+// Starred ideas and named collections, persisted locally and independent of sessions
+export const CollectionsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [stored, setStored] = useState<Collection[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Source of truth for updates, so consecutive changes see each other
+  const storedRef = useRef<Collection[]>([]);
+
+  const commit = useCallback((next: Collection[]) => {
+    storedRef.current = next;
+    setStored(next);
+  }, []);
+
+  useEffect(() => {
+    let active = true;
+    collectionStore.list()
+      .then((loaded) => {
+        if (!active) return;
+        commit([
+          ...storedRef.current,
+          ...loaded.filter((collection) => !storedRef.current.some((existing) => existing.id === collection.id)),
+        ]);
+      })
+      .catch((error) => active && setError(describeError(error)))
+      .finally(() => active && setIsLoaded(true));
+    return () => {
+      active = false;
+    };
+  }, [commit]);
+
+  const persist = useCallback((changed: Collection[], removedIds: string[] = []) => {
+    const ids = new Set([...changed.map((collection) => collection.id), ...removedIds]);
+    commit([...storedRef.current.filter((collection) => !ids.has(collection.id)), ...changed]);
+
+    Promise.all([
+      ...changed.map((collection) => collectionStore.put(collection)),
+      ...removedIds.map((id) => collectionStore.delete(id)),
+    ]).catch((error) => {
+      console.error('❌ Failed to save collections:', error);
+      setError(describeError(error));
+    });
+  }, [commit]);
+
+  const find = (id: string) =>
+    storedRef.current.find((collection) => collection.id === id) ?? (id === FAVORITES_ID ? createFavorites() : undefined);
+
+  const isFavorite = useCallback(
+    (ideaId: string) => !!stored.find((collection) => collection.id === FAVORITES_ID)?.ideas.some((idea) => idea.id === ideaId),
+    [stored]
+  );
+
+  const toggleFavorite = useCallback((idea: SavedIdea) => {
+    const favorites = find(FAVORITES_ID)!;
+    const starred = favorites.ideas.some((existing) => existing.id === idea.id);
+    persist([starred ? withoutIdea(favorites, idea.id) : withIdea(favorites, idea)]);
+  }, [persist]);
+
+  const createCollection = useCallback((name: string, tags: string[]) => {
+    const collection = newCollection(name.trim() || 'Untitled collection', tags);
+    persist([collection]);
+    return collection;
+  }, [persist]);
+
+  const updateCollection = useCallback((id: string, changes: Partial<Pick<Collection, 'name' | 'tags'>>) => {
+    const collection = find(id);
+    if (collection) persist([{ ...collection, ...changes, updatedAt: Date.now() }]);
+  }, [persist]);
+
+  const deleteCollection = useCallback((id: string) => {
+    if (id !== FAVORITES_ID) persist([], [id]);
+  }, [persist]);
+
+  const addIdea = useCallback((collectionId: string, idea: SavedIdea) => {
+    const collection = find(collectionId);
+    if (collection) persist([withIdea(collection, idea)]);
+  }, [persist]);
+
+  const removeIdea = useCallback((collectionId: string, ideaId: string) => {
+    const collection = find(collectionId);
+    if (collection) persist([withoutIdea(collection, ideaId)]);
+  }, [persist]);
+
+  const transfer = useCallback((fromId: string, toId: string, ideaId: string, keepOriginal: boolean) => {
+    const from = find(fromId);
+    const to = find(toId);
+    const idea = from?.ideas.find((existing) => existing.id === ideaId);
+    if (!from || !to || !idea || fromId === toId) return;
+    persist(keepOriginal ? [withIdea(to, idea)] : [withoutIdea(from, ideaId), withIdea(to, idea)]);
+  }, [persist]);
+
+  const moveIdea = useCallback((fromId: string, toId: string, ideaId: string) =>
+    transfer(fromId, toId, ideaId, false), [transfer]);
+
+  const copyIdea = useCallback((fromId: string, toId: string, ideaId: string) =>
+    transfer(fromId, toId, ideaId, true), [transfer]);
+
+  const collections = useMemo(() => {
+    const favorites = stored.find((collection) => collection.id === FAVORITES_ID) ?? createFavorites();
+    const others = stored
+      .filter((collection) => collection.id !== FAVORITES_ID)
+      .sort((a, b) => a.name.localeCompare(b.name));
+    return [favorites, ...others];
+  }, [stored]);
+
+  return (
+    <CollectionsContext.Provider value={{
+      collections,
+      isLoaded,
+      error,
+      isFavorite,
+      toggleFavorite,
+      createCollection,
+      updateCollection,
+      deleteCollection,
+      addIdea,
+      removeIdea,
+      moveIdea,
+      copyIdea,
+    }}>
+      {children}
+    </CollectionsContext.Provider>
+  );
+};
+
+export const useCollections = () => {
+  const context = useContext(CollectionsContext);
+  if (context === undefined) throw new Error('useCollections must be used within a CollectionsProvider');
+  return context;
+};
@@ -0,0 +1,148 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import type { DirectionLibrary, DirectionMix, Mode } from '../types';
+import { directionLibraryStore } from '../utils/storage';
+import { builtInLibrary } from '../utils/directions';
+import { getMode, listModes } from '../pipeline/modes/registry';
+
+interface DirectionsContextType {
+  // Built-in library first, then the user's libraries by name, for every mode
+  libraries: DirectionLibrary[];
+  isLoaded: boolean;
+  error: string | null;
+  // The library runs of this mode draw their directions from
+  activeLibrary: (mode: Mode) => DirectionLibrary;
+  selectLibrary: (mode: Mode, id: string) => void;
+  // Category bounds for runs of this mode; defaults to the mode's own mix
+  directionMix: (mode: Mode) => DirectionMix;
+  setDirectionMix: (mode: Mode, mix: DirectionMix | null) => void;
+  saveLibraries: (libraries: DirectionLibrary[]) => void;
+  deleteLibrary: (id: string) => void;
+}
+
+const DirectionsContext = createContext<DirectionsContextType | undefined>(undefined);
+
+const SELECTION_KEY = 'muse-bot:direction-library';
+const MIX_KEY = 'muse-bot:direction-mix';
+
+// Shared so modes without a default mix keep a stable value
+const NO_MIX: DirectionMix = {};
+
+// Small per-mode preferences kept directly in localStorage
+const readPreference = <T,>(key: string): Partial<Record<Mode, T>> => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(key) || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+const describeError = (error: unknown) =>
+  `Could not access direction libraries: ${error instanceof Error ? error.message : String(error)}`;
+
+// User-defined direction libraries, persisted locally, and the library chosen for each mode
+export const DirectionsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [stored, setStored] = useState<DirectionLibrary[]>([]);
+  const [selection, setSelection] = useState(() => readPreference<string>(SELECTION_KEY));
+  const [mixes, setMixes] = useState(() => readPreference<DirectionMix>(MIX_KEY));
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Source of truth for updates, so consecutive changes see each other
+  const storedRef = useRef<DirectionLibrary[]>([]);
+
+  const commit = useCallback((next: DirectionLibrary[]) => {
+    storedRef.current = next;
+    setStored(next);
+  }, []);
+
+  useEffect(() => {
+    let active = true;
+    directionLibraryStore.list()
+      .then((loaded) => {
+        if (!active) return;
+        commit([
+          ...storedRef.current,
+          ...loaded.filter((library) => !storedRef.current.some((existing) => existing.id === library.id)),
+        ]);
+      })
+      .catch((error) => active && setError(describeError(error)))
+      .finally(() => active && setIsLoaded(true));
+    return () => {
+      active = false;
+    };
+  }, [commit]);
+
+  const persist = useCallback((changed: DirectionLibrary[], removedIds: string[] = []) => {
+    const ids = new Set([...changed.map((library) => library.id), ...removedIds]);
+    commit([...storedRef.current.filter((library) => !ids.has(library.id)), ...changed]);
+
+    Promise.all([
+      ...changed.map((library) => directionLibraryStore.put(library)),
+      ...removedIds.map((id) => directionLibraryStore.delete(id)),
+    ]).catch((error) => {
+      console.error('❌ Failed to save direction libraries:', error);
+      setError(describeError(error));
+    });
+  }, [commit]);
+
+  const saveLibraries = useCallback((libraries: DirectionLibrary[]) => {
+    persist(libraries
+      .filter((library) => !library.builtIn)
+      .map((library) => ({ ...library, updatedAt: Date.now() })));
+  }, [persist]);
+
+  const deleteLibrary = useCallback((id: string) => persist([], [id]), [persist]);
+
+  const selectLibrary = useCallback((mode: Mode, id: string) => {
+    setSelection((current) => {
+      const next = { ...current, [mode]: id };
+      localStorage.setItem(SELECTION_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  // null restores the mode's default mix
+  const setDirectionMix = useCallback((mode: Mode, mix: DirectionMix | null) => {
+    setMixes((current) => {
+      const next = { ...current };
+      if (mix) next[mode] = mix;
+      else delete next[mode];
+      localStorage.setItem(MIX_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const directionMix = useCallback((mode: Mode) => mixes[mode] ?? getMode(mode)?.directionMix ?? NO_MIX, [mixes]);
+
+  // A selected library that was deleted falls back to the built-in one
+  const activeLibrary = useCallback((mode: Mode) =>
+    stored.find((library) => library.id === selection[mode] && library.mode === mode) ?? builtInLibrary(mode),
+  [stored, selection]);
+
+  const libraries = useMemo(() => [
+    ...listModes().map((definition) => builtInLibrary(definition.id)),
+    ...[...stored].sort((a, b) => a.name.localeCompare(b.name)),
+  ], [stored]);
+
+  return (
+    <DirectionsContext.Provider value={{
+      libraries,
+      isLoaded,
+      error,
+      activeLibrary,
+      selectLibrary,
+      directionMix,
+      setDirectionMix,
+      saveLibraries,
+      deleteLibrary,
+    }}>
+      {children}
+    </DirectionsContext.Provider>
+  );
+};
+
+export const useDirections = () => {
+  const context = useContext(DirectionsContext);
+  if (context === undefined) throw new Error('useDirections must be used within a DirectionsProvider');
+  return context;
+};
@@ -0,0 +1,85 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import type { Conversation } from '../types';
+import { conversationStore } from '../utils/storage';
+
+interface HistoryContextType {
+  sessions: Conversation[];
+  isLoaded: boolean;
+  error: string | null;
+  saveSession: (conversation: Conversation) => Promise<void>;
+  addSessions: (conversations: Conversation[]) => Promise<void>;
+  deleteSession: (id: string) => Promise<void>;
+}
+
+const HistoryContext = createContext<HistoryContextType | undefined>(undefined);
+
+const describeError = (error: unknown) =>
+  `Could not access saved sessions: ${error instanceof Error ? error.message : String(error)}`;
+
+// Keeps every finished conversation in persistent storage and in memory for the sidebar
+export const HistoryProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [sessions, setSessions] = useState<Conversation[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    conversationStore.list()
+      .then((stored) => {
+        // Sessions saved before the load finished are already in state
+        if (active) setSessions((current) => [
+          ...current,
+          ...stored.filter((session) => !current.some((existing) => existing.id === session.id)),
+        ]);
+      })
+      .catch((error) => active && setError(describeError(error)))
+      .finally(() => active && setIsLoaded(true));
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const saveSession = useCallback(async (conversation: Conversation) => {
+    setSessions((current) => [conversation, ...current.filter((session) => session.id !== conversation.id)]);
+    try {
+      await conversationStore.put(conversation);
+    } catch (error) {
+      console.error('❌ Failed to save session:', error);
+      setError(describeError(error));
+    }
+  }, []);
+
+  // Bulk insert for imports; ids are expected to be new
+  const addSessions = useCallback(async (conversations: Conversation[]) => {
+    const ids = new Set(conversations.map((conversation) => conversation.id));
+    setSessions((current) => [...conversations, ...current.filter((session) => !ids.has(session.id))]);
+    try {
+      await Promise.all(conversations.map((conversation) => conversationStore.put(conversation)));
+    } catch (error) {
+      console.error('❌ Failed to save imported sessions:', error);
+      setError(describeError(error));
+    }
+  }, []);
+
+  const deleteSession = useCallback(async (id: string) => {
+    setSessions((current) => current.filter((session) => session.id !== id));
+    try {
+      await conversationStore.delete(id);
+    } catch (error) {
+      console.error('❌ Failed to delete session:', error);
+      setError(describeError(error));
+    }
+  }, []);
+
+  return (
+    <HistoryContext.Provider value={{ sessions, isLoaded, error, saveSession, addSessions, deleteSession }}>
+      {children}
+    </HistoryContext.Provider>
+  );
+};
+
+export const useHistory = () => {
+  const context = useContext(HistoryContext);
+  if (context === undefined) throw new Error('useHistory must be used within a HistoryProvider');
+  return context;
+};
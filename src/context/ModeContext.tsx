@@ -1,6 +1,6 @@
 import React, { createContext, useContext, useState, ReactNode } from 'react';
-
-type Mode = 'good' | 'bad';
+import type { Mode } from '../types';
+import { DEFAULT_MODE } from '../pipeline/modes/registry';
 
 interface ModeContextType {
   mode: Mode;
@@ -10,7 +10,7 @@ interface ModeContextType {
 const ModeContext = createContext<ModeContextType | undefined>(undefined);
 
 export const ModeProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [mode, setMode] = useState<Mode>('good');
+  const [mode, setMode] = useState<Mode>(DEFAULT_MODE);
 
   return (
     <ModeContext.Provider value={{ mode, setMode }}>
@@ -0,0 +1,237 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { Conversation, ExpansionTemplate, Idea, RevisionAction } from '../types';
+import type { LLMClient, PipelineConfig, RunOptions } from '../pipeline/types';
+import { expandIdea as expandPipelineIdea, reviseIdea as revisePipelineIdea, runPipeline } from '../pipeline/engine';
+import { directionOf } from '../pipeline/directions';
+
+const NO_HISTORY: Conversation[] = [];
+
+export interface PipelineRunState {
+  isLoading: boolean;
+  conversation: Conversation | null;
+  partialIdeas: Idea[];
+  error: string | null;
+  isCancelled: boolean;
+  revisingIndex: number | null;
+  expandingIndex: number | null;
+  canExpand: boolean;
+  generateIdeas: (prompt: string, options?: RunOptions) => Promise<void>;
+  // Fresh batch for the same prompt, drawn only from one idea's direction
+  moreLikeThis: (index: number) => Promise<void>;
+  // Runs a past conversation's prompt again with its seed, directions and settings
+  replay: (past: Conversation) => Promise<void>;
+  reviseIdea: (index: number, action: RevisionAction) => Promise<void>;
+  expandIdea: (index: number, template: ExpansionTemplate) => Promise<void>;
+  openConversation: (conversation: Conversation) => void;
+  cancel: () => void;
+}
+
+/**
+ * React state for a pipeline run, shared by the mode providers. Ideas are
+ * exposed through `partialIdeas` as they stream in, then replaced by the
+ * rated set once each critic pass returns. Starting a new run or revision
+ * cancels the one in flight; a cancelled run is reported through
+ * `isCancelled`, not `error`. Every finished, revised or expanded
+ * conversation is handed to `onConversation` so it can be persisted. New
+ * runs replace ideas that repeat one of the `history` sessions.
+ */
+export const usePipelineRun = (
+  config: PipelineConfig,
+  client: LLMClient | null,
+  onConversation?: (conversation: Conversation) => void,
+  history: Conversation[] = NO_HISTORY
+): PipelineRunState => {
+  const [isLoading, setIsLoading] = useState(false);
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [partialIdeas, setPartialIdeas] = useState<Idea[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isCancelled, setIsCancelled] = useState(false);
+  const [revisingIndex, setRevisingIndex] = useState<number | null>(null);
+  const [expandingIndex, setExpandingIndex] = useState<number | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const cancel = useCallback(() => controllerRef.current?.abort(), []);
+
+  // Don't leave a run going after the provider unmounts
+  useEffect(() => cancel, [cancel]);
+
+  const startRun = () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError(null);
+    setIsCancelled(false);
+    return controller;
+  };
+
+  const handleFailure = (controller: AbortController, error: unknown) => {
+    if (controller.signal.aborted) {
+      // Superseded runs stay silent; only an explicit stop is reported
+      if (controllerRef.current === controller) setIsCancelled(true);
+    } else {
+      setError(error instanceof Error ? error.message : 'An unexpected error occurred');
+    }
+  };
+
+  const generateIdeas = useCallback(async (prompt: string, options?: RunOptions) => {
+    if (!prompt.trim()) {
+      setError('Please enter a prompt');
+      return;
+    }
+    if (!client) {
+      setError('API not initialized. Please try again later.');
+      return;
+    }
+
+    const controller = startRun();
+    setIsLoading(true);
+    setRevisingIndex(null);
+    setExpandingIndex(null);
+    setPartialIdeas([]);
+
+    try {
+      await runPipeline(prompt, config, {
+        client,
+        signal: controller.signal,
+        onEvent: (event) => {
+          if (controller.signal.aborted) return;
+          switch (event.type) {
+            case 'idea':
+              // The first idea of a generation starts a fresh set of cards
+              setPartialIdeas((ideas) => [
+                ...(event.index === 0 ? [] : ideas),
+                { ...event.idea, id: `partial-${event.iteration}-${event.index}`, rating: 0 },
+              ]);
+              break;
+            case 'replacement':
+              setPartialIdeas((ideas) => ideas.map((idea, index) => (index === event.index
+                ? { ...event.idea, id: `partial-${event.iteration}-${event.index}-replaced`, rating: 0 }
+                : idea)));
+              break;
+            case 'iteration':
+              setPartialIdeas(event.data.ideas);
+              break;
+            case 'complete':
+              setConversation(event.conversation);
+              onConversation?.(event.conversation);
+              break;
+          }
+        },
+      }, { history, ...options });
+    } catch (error) {
+      handleFailure(controller, error);
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsLoading(false);
+      }
+    }
+  }, [config, client, onConversation, history]);
+
+  const moreLikeThis = useCallback(async (index: number) => {
+    const direction = conversation && directionOf(conversation, index);
+    if (!conversation || !direction) return;
+    await generateIdeas(conversation.prompt, { directions: [direction] });
+  }, [conversation, generateIdeas]);
+
+  // Not checked against history, which holds the very run being replayed
+  const replay = useCallback((past: Conversation) => generateIdeas(past.prompt, {
+    seed: past.seed,
+    directions: past.directions,
+    settings: past.settings,
+    history: [],
+  }), [generateIdeas]);
+
+  // Revises one idea of the current conversation; the other cards stay visible meanwhile
+  const reviseIdea = useCallback(async (index: number, action: RevisionAction) => {
+    if (!conversation) return;
+    if (!client) {
+      setError('API not initialized. Please try again later.');
+      return;
+    }
+
+    const controller = startRun();
+    setRevisingIndex(index);
+    setExpandingIndex(null);
+
+    try {
+      const revised = await revisePipelineIdea(conversation, index, action, config, {
+        client,
+        signal: controller.signal,
+      });
+      if (!controller.signal.aborted) {
+        setConversation(revised);
+        onConversation?.(revised);
+      }
+    } catch (error) {
+      handleFailure(controller, error);
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setRevisingIndex(null);
+      }
+    }
+  }, [config, client, conversation, onConversation]);
+
+  // Expands one idea into a document that is saved on the conversation
+  const expandIdea = useCallback(async (index: number, template: ExpansionTemplate) => {
+    if (!conversation) return;
+    if (!client) {
+      setError('API not initialized. Please try again later.');
+      return;
+    }
+
+    const controller = startRun();
+    setExpandingIndex(index);
+    setRevisingIndex(null);
+
+    try {
+      const expanded = await expandPipelineIdea(conversation, index, template, config, {
+        client,
+        signal: controller.signal,
+      });
+      if (!controller.signal.aborted) {
+        setConversation(expanded);
+        onConversation?.(expanded);
+      }
+    } catch (error) {
+      handleFailure(controller, error);
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setExpandingIndex(null);
+      }
+    }
+  }, [config, client, conversation, onConversation]);
+
+  // Shows a past session, stopping whatever is in flight
+  const openConversation = useCallback((past: Conversation) => {
+    cancel();
+    controllerRef.current = null;
+    setIsLoading(false);
+    setRevisingIndex(null);
+    setExpandingIndex(null);
+    setPartialIdeas([]);
+    setError(null);
+    setIsCancelled(false);
+    setConversation(past);
+  }, [cancel]);
+
+  return {
+    isLoading,
+    conversation,
+    partialIdeas,
+    error,
+    isCancelled,
+    revisingIndex,
+    expandingIndex,
+    canExpand: !!config.expander,
+    generateIdeas,
+    moreLikeThis,
+    replay,
+    reviseIdea,
+    expandIdea,
+    openConversation,
+    cancel,
+  };
+};
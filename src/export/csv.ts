@@ -0,0 +1,22 @@
+import type { ExportOptions, ExportSource } from './types';
+import { toRows } from './shared';
+
+// RFC 4180 quoting; a leading quote stops spreadsheets evaluating =, +, - or @ as a formula
+const cell = (value: string | number | undefined) => {
+  let text = value === undefined ? '' : String(value);
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCSV = (source: ExportSource, options: ExportOptions): string => {
+  const columns = ['title', 'description', ...(options.includeRatings ? ['rating'] : []), 'prompt', 'mode', 'direction'];
+  const rows = toRows(source).map((row) => [
+    row.title,
+    row.description,
+    ...(options.includeRatings ? [row.rating || ''] : []),
+    row.prompt,
+    row.mode,
+    row.direction,
+  ]);
+  return [columns, ...rows].map((row) => row.map(cell).join(',')).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,35 @@
+import type { ExportFile, ExportFormat, ExportOptions, ExportSource } from './types';
+import { slugify, sourceTitle } from './shared';
+import { toMarkdown } from './markdown';
+import { toJSON } from './json';
+import { toCSV } from './csv';
+import { toHTML } from './html';
+
+/**
+ * Serializes a conversation or collection into a downloadable file. Every
+ * format honours the same ExportOptions.
+ */
+
+const EXPORTERS: Record<ExportFormat, {
+  label: string;
+  extension: string;
+  mimeType: string;
+  serialize: (source: ExportSource, options: ExportOptions) => string;
+}> = {
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown', serialize: toMarkdown },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json', serialize: toJSON },
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv', serialize: toCSV },
+  html: { label: 'HTML report', extension: 'html', mimeType: 'text/html', serialize: toHTML },
+};
+
+export const EXPORT_FORMATS = Object.entries(EXPORTERS).map(([id, { label }]) => ({ id: id as ExportFormat, label }));
+
+export const exportSource = (source: ExportSource, format: ExportFormat, options: ExportOptions): ExportFile => {
+  const { extension, mimeType, serialize } = EXPORTERS[format];
+  const date = new Date().toISOString().slice(0, 10);
+  return {
+    filename: `${slugify(sourceTitle(source))}-${date}.${extension}`,
+    mimeType: `${mimeType};charset=utf-8`,
+    content: serialize(source, options),
+  };
+};
@@ -0,0 +1,92 @@
+import type { ExportOptions, ExportSource } from './types';
+import { modeLabel } from '../pipeline/modes/registry';
+import { formatDate, sourceTitle, toRows, trimConversation } from './shared';
+
+const escapeHTML = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const paragraphs = (text: string) =>
+  text.split('\n\n').map((paragraph) => `<p>${escapeHTML(paragraph)}</p>`).join('\n');
+
+// Inline styles keep the report self-contained and readable when printed
+const STYLES = `
+  body { font-family: system-ui, -apple-system, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1f2937; line-height: 1.6; }
+  h1 { font-size: 1.75rem; margin-bottom: 0.25rem; }
+  .meta { color: #6b7280; font-size: 0.875rem; margin-bottom: 2rem; }
+  .idea { border: 1px solid #e5e7eb; border-radius: 0.5rem; padding: 1rem 1.25rem; margin-bottom: 1rem; break-inside: avoid; }
+  .idea h2 { font-size: 1.25rem; margin: 0 0 0.5rem; }
+  .rating { color: #4f46e5; font-weight: 600; font-size: 0.875rem; }
+  .direction, .source { color: #6b7280; font-size: 0.8125rem; font-style: italic; }
+  .doc { white-space: pre-wrap; font-family: inherit; background: #f9fafb; border-radius: 0.375rem; padding: 0.75rem; font-size: 0.875rem; }
+  .feedback { background: #f3f4f6; border-left: 3px solid #9ca3af; padding: 0.5rem 1rem; white-space: pre-wrap; }
+  @media print { body { margin: 0; } a { color: inherit; } }
+`;
+
+export const toHTML = (source: ExportSource, options: ExportOptions): string => {
+  const title = sourceTitle(source);
+  const rows = toRows(source);
+  const body: string[] = [`<h1>${escapeHTML(title)}</h1>`];
+
+  if (source.kind === 'collection') {
+    const tags = source.collection.tags.map((tag) => `#${tag}`).join(' ');
+    body.push(`<div class="meta">${rows.length} ideas${tags ? ` · ${escapeHTML(tags)}` : ''}</div>`);
+    rows.forEach((row) => {
+      body.push(`<section class="idea">
+<h2>${escapeHTML(row.title)}</h2>
+<div class="source">From “${escapeHTML(row.prompt)}” · ${modeLabel(row.mode)}</div>
+${paragraphs(row.description)}
+${options.includeRatings && row.rating ? `<div class="rating">Rating: ${row.rating}/100</div>` : ''}
+</section>`);
+    });
+  } else {
+    const conversation = trimConversation(source.conversation, options);
+    const score = options.includeRatings && conversation.bestScore !== 'N/A' ? ` · Best score ${escapeHTML(conversation.bestScore)}` : '';
+    body.push(`<div class="meta">${modeLabel(conversation.mode)} · ${escapeHTML(formatDate(conversation.timestamp))}${score}</div>`);
+
+    rows.forEach((row, index) => {
+      const ideaId = conversation.ideas[index].id;
+      const documents = (conversation.expansions ?? [])
+        .filter((doc) => doc.ideaId === ideaId)
+        .map((doc) => `<pre class="doc">${escapeHTML(doc.markdown)}</pre>`)
+        .join('\n');
+      body.push(`<section class="idea">
+<h2>${index + 1}. ${escapeHTML(row.title)}</h2>
+${row.direction ? `<div class="direction">Creative direction: ${escapeHTML(row.direction)}</div>` : ''}
+${paragraphs(row.description)}
+${options.includeRatings && row.rating ? `<div class="rating">Rating: ${row.rating}/100</div>` : ''}
+${documents}
+</section>`);
+    });
+
+    if (options.includeFeedback && conversation.feedback) {
+      body.push(`<h2>Critic feedback</h2>\n<div class="feedback">${escapeHTML(conversation.feedback)}</div>`);
+    }
+
+    if (options.includeHistory && conversation.iterationHistory.length) {
+      body.push('<h2>Iteration history</h2>');
+      conversation.iterationHistory.forEach((iteration, index) => {
+        const revision = iteration.revision ? ` (${iteration.revision.action} idea ${iteration.revision.index + 1})` : '';
+        const ideas = iteration.ideas
+          .map((idea) => `<li>${escapeHTML(idea.title)}${options.includeRatings && idea.rating ? ` (${idea.rating})` : ''}</li>`)
+          .join('');
+        body.push(`<h3>Iteration ${index + 1}${revision} · ${escapeHTML(iteration.score)}</h3>
+<ul>${ideas}</ul>
+${iteration.feedback ? `<div class="feedback">${escapeHTML(iteration.feedback)}</div>` : ''}`);
+      });
+    }
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHTML(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+${body.join('\n')}
+</body>
+</html>
+`;
+};
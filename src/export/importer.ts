@@ -0,0 +1,512 @@
+import type {
+  Conversation,
+  CriticEnsembleSettings,
+  DuplicateFlag,
+  ExpansionTemplate,
+  GenerationSettings,
+  Idea,
+  IdeaExpansion,
+  IterationData,
+  IterationPolicy,
+  JudgeSettings,
+  JudgeVerdict,
+  Mode,
+  ParseRecord,
+  PromptTemplateRef,
+  RatingAggregation,
+  RevisionAction,
+  StageSettings,
+  TokenUsage,
+  TournamentMatch,
+  TournamentResult,
+  TournamentStanding,
+} from '../types';
+import { RATING_AGGREGATIONS } from '../pipeline/ensemble';
+import { EXPANSION_TEMPLATES } from '../pipeline/expansion';
+import { DEFAULT_MODE, isRegisteredMode } from '../pipeline/modes/registry';
+import { MAX_SEED } from '../pipeline/random';
+import { SELECTION_POLICIES } from '../pipeline/selection';
+import { EXPORT_SCHEMA, EXPORT_SCHEMA_VERSION, type ExportPayload, type ExportPayloadV1 } from './types';
+
+/**
+ * Loads sessions from a JSON file. Accepts our own exports of any schema
+ * version (migrated forward one version at a time) as well as hand-assembled
+ * files: a bare conversation, an array of them, or `{ conversations: [...] }`.
+ * Records are checked against the Conversation / Idea / IterationData shapes
+ * and rebuilt from the fields that passed, so unknown fields are dropped;
+ * optional fields missing from hand-written files get defaults, anything else
+ * that does not fit is skipped with a reason.
+ */
+
+export interface SkippedRecord {
+  index: number;
+  id?: string;
+  reason: string;
+}
+
+export interface ImportResult {
+  conversations: Conversation[];
+  skipped: SkippedRecord[];
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Each entry upgrades a payload from its key version to the next one
+const MIGRATIONS: Record<number, (payload: UnknownRecord) => UnknownRecord> = {
+  1: (payload) => {
+    const { conversation, collection, ...rest } = payload as unknown as ExportPayloadV1;
+    return {
+      ...rest,
+      version: 2,
+      conversations: conversation ? [conversation] : [],
+      collections: collection ? [collection] : [],
+    };
+  },
+};
+
+const toPayload = (data: unknown): ExportPayload => {
+  // Hand-assembled files carry no schema marker
+  if (Array.isArray(data)) return { schema: EXPORT_SCHEMA, version: EXPORT_SCHEMA_VERSION, exportedAt: '', conversations: data, collections: [] };
+  if (!isRecord(data)) throw new Error('Expected a JSON object or array of sessions');
+  if (data.schema === undefined) {
+    const conversations = Array.isArray(data.conversations) ? data.conversations : [data];
+    return { schema: EXPORT_SCHEMA, version: EXPORT_SCHEMA_VERSION, exportedAt: '', conversations, collections: [] };
+  }
+
+  if (data.schema !== EXPORT_SCHEMA) throw new Error(`Unknown file schema "${String(data.schema)}"`);
+  let payload = data;
+  let version = Number(payload.version);
+  if (!Number.isInteger(version) || version < 1) throw new Error(`Invalid schema version "${String(payload.version)}"`);
+  if (version > EXPORT_SCHEMA_VERSION) {
+    throw new Error(`This file uses schema version ${version}; this app reads up to version ${EXPORT_SCHEMA_VERSION}`);
+  }
+  while (version < EXPORT_SCHEMA_VERSION) {
+    payload = MIGRATIONS[version](payload);
+    version = Number(payload.version);
+  }
+  const migrated = payload as unknown as ExportPayload;
+  return {
+    ...migrated,
+    conversations: Array.isArray(migrated.conversations) ? migrated.conversations : [],
+    collections: Array.isArray(migrated.collections) ? migrated.collections : [],
+  };
+};
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && !!value.trim();
+
+const isRating = (value: unknown): value is number => typeof value === 'number' && value >= 0 && value <= 100;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+// The option `value` names, if it names one
+const oneOf = <T extends string>(options: readonly T[], value: unknown) => options.find((option) => option === value);
+
+const REVISION_ACTIONS: RevisionAction[] = ['refine', 'practical', 'wilder', 'regenerate'];
+const DUPLICATE_SOURCES: DuplicateFlag['similarTo']['source'][] = ['set', 'iteration', 'history'];
+const MATCH_WINNERS: TournamentMatch['winner'][] = ['a', 'b', 'tie'];
+const PARSE_OUTCOMES: ParseRecord['outcome'][] = ['repaired', 'retried', 'failed'];
+const STAGES = ['enhancer', 'generator', 'critic', 'expander'] as const;
+
+const toTimestamp = (value: unknown): number | undefined => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    if (!Number.isNaN(parsed)) return parsed;
+  }
+  return undefined;
+};
+
+// Converts every item of a list, stopping at the first that does not fit
+const toList = <T>(value: unknown, label: string, toItem: (item: unknown, label: string) => T | string): T[] | string => {
+  if (!Array.isArray(value)) return `${label} must be an array`;
+  const items: T[] = [];
+  for (const [index, item] of value.entries()) {
+    const converted = toItem(item, `${label} item ${index + 1}`);
+    if (typeof converted === 'string') return converted;
+    items.push(converted);
+  }
+  return items;
+};
+
+// An optional field: absent stays absent, anything else must convert
+const optional = <T>(value: unknown, convert: (value: unknown) => T | string): T | string | undefined =>
+  (value === undefined ? undefined : convert(value));
+
+const toIdea = (value: unknown, fallbackId: string, label: string): Idea | string => {
+  if (!isRecord(value)) return `${label} is not an object`;
+  if (!isNonEmptyString(value.title)) return `${label} needs a non-empty "title"`;
+  if (!isNonEmptyString(value.description)) return `${label} needs a non-empty "description"`;
+  if (value.rating !== undefined && !isRating(value.rating)) return `${label} has a rating outside 0-100`;
+  if (value.id !== undefined && !isNonEmptyString(value.id)) return `${label} has an invalid "id"`;
+  if (value.direction !== undefined && typeof value.direction !== 'string') return `${label} has a "direction" that is not a string`;
+  const { judgeRatings } = value;
+  if (judgeRatings !== undefined && !(isRecord(judgeRatings) && Object.values(judgeRatings).every(isRating))) {
+    return `${label} has judge ratings outside 0-100`;
+  }
+  if (value.elo !== undefined && !isNumber(value.elo)) return `${label} has an "elo" that is not a number`;
+  if (value.createdAt !== undefined && !isNumber(value.createdAt)) return `${label} has a "createdAt" that is not a time`;
+  return {
+    id: value.id ?? fallbackId,
+    title: value.title,
+    description: value.description,
+    rating: value.rating ?? 0,
+    ...(typeof value.direction === 'string' && { direction: value.direction }),
+    ...(judgeRatings !== undefined && { judgeRatings: judgeRatings as Record<string, number> }),
+    ...(isNumber(value.elo) && { elo: value.elo }),
+    ...(isNumber(value.createdAt) && { createdAt: value.createdAt }),
+  };
+};
+
+const toIdeas = (value: unknown, idPrefix: string, label: string): Idea[] | string => {
+  if (!Array.isArray(value) || !value.length) return `${label} must be a non-empty array of ideas`;
+  const ideas: Idea[] = [];
+  for (const [index, item] of value.entries()) {
+    const idea = toIdea(item, `${idPrefix}-${index}`, `${label} item ${index + 1}`);
+    if (typeof idea === 'string') return idea;
+    ideas.push(idea);
+  }
+  return ideas;
+};
+
+const toVerdict = (value: unknown, label: string): JudgeVerdict | string => {
+  if (!isRecord(value)) return `${label} is not an object`;
+  const { judge, ratings, feedback, overallScore } = value;
+  if (!isNonEmptyString(judge)) return `${label} needs a "judge" name`;
+  if (!(Array.isArray(ratings) && ratings.every(isRating))) return `${label} ratings must be numbers from 0 to 100`;
+  if (typeof feedback !== 'string' || typeof overallScore !== 'string') return `${label} needs "feedback" and "overallScore" strings`;
+  return { judge, ratings, feedback, overallScore };
+};
+
+const toDuplicate = (value: unknown, label: string): DuplicateFlag | string => {
+  if (!isRecord(value)) return `${label} is not an object`;
+  const { index, title, similarTo, similarity, replaced } = value;
+  if (!isCount(index) || typeof title !== 'string') return `${label} needs an "index" and a "title"`;
+  if (!(isNumber(similarity) && similarity >= 0 && similarity <= 1)) return `${label} needs a "similarity" from 0 to 1`;
+  if (typeof replaced !== 'boolean') return `${label} needs a true/false "replaced"`;
+  if (!isRecord(similarTo) || typeof similarTo.title !== 'string') return `${label} needs the "similarTo" idea`;
+  const source = oneOf(DUPLICATE_SOURCES, similarTo.source);
+  if (!source) return `${label} has an unknown source "${String(similarTo.source)}"`;
+  if (similarTo.iteration !== undefined && !isCount(similarTo.iteration)) return `${label} has an invalid "iteration"`;
+  if (similarTo.conversationId !== undefined && typeof similarTo.conversationId !== 'string') {
+    return `${label} has an invalid "conversationId"`;
+  }
+  return {
+    index,
+    title,
+    similarTo: {
+      title: similarTo.title,
+      source,
+      ...(isCount(similarTo.iteration) && { iteration: similarTo.iteration }),
+      ...(typeof similarTo.conversationId === 'string' && { conversationId: similarTo.conversationId }),
+    },
+    similarity,
+    replaced,
+  };
+};
+
+const toRevision = (value: unknown, label: string): IterationData['revision'] | string => {
+  if (!isRecord(value) || !isCount(value.index)) return `${label} revision needs an idea "index"`;
+  const action = oneOf(REVISION_ACTIONS, value.action);
+  if (!action) return `${label} revision has an unknown action "${String(value.action)}"`;
+  return { index: value.index, action };
+};
+
+const toIteration = (value: unknown, idPrefix: string, label: string): IterationData | string => {
+  if (!isRecord(value)) return `${label} is not an object`;
+  const ideas = toIdeas(value.ideas, idPrefix, `${label} ideas`);
+  if (typeof ideas === 'string') return ideas;
+  if (value.feedback !== undefined && typeof value.feedback !== 'string') return `${label} feedback must be a string`;
+  if (value.score !== undefined && typeof value.score !== 'string') return `${label} score must be a string`;
+  if (value.ratings !== undefined && !(Array.isArray(value.ratings) && value.ratings.every(isRating))) {
+    return `${label} ratings must be numbers from 0 to 100`;
+  }
+  const judges = optional(value.judges, (judges) => toList(judges, `${label} judges`, toVerdict));
+  if (typeof judges === 'string') return judges;
+  const duplicates = optional(value.duplicates, (duplicates) => toList(duplicates, `${label} duplicates`, toDuplicate));
+  if (typeof duplicates === 'string') return duplicates;
+  const revision = optional(value.revision, (revision) => toRevision(revision, label));
+  if (typeof revision === 'string') return revision;
+
+  return {
+    ideas,
+    feedback: value.feedback ?? '',
+    score: value.score ?? 'N/A',
+    ratings: value.ratings ?? ideas.map((idea) => idea.rating),
+    ...(judges && { judges }),
+    ...(duplicates && { duplicates }),
+    ...(revision && { revision }),
+  };
+};
+
+const toExpansion = (value: unknown, label: string): IdeaExpansion | string => {
+  if (!isRecord(value)) return `${label} is not an object`;
+  if (!isNonEmptyString(value.ideaId)) return `${label} needs an "ideaId"`;
+  const template = oneOf(Object.keys(EXPANSION_TEMPLATES) as ExpansionTemplate[], value.template);
+  if (!template) return `${label} has an unknown template "${String(value.template)}"`;
+  if (typeof value.markdown !== 'string') return `${label} needs a "markdown" document`;
+  const timestamp = toTimestamp(value.timestamp);
+  if (timestamp === undefined) return `${label} "timestamp" is not a date`;
+  return { ideaId: value.ideaId, template, markdown: value.markdown, timestamp };
+};
+
+const toStageSettings = (value: unknown, label: string): StageSettings | string => {
+  if (!isRecord(value)) return `${label} is not an object`;
+  const { model, provider, temperature, topP, maxTokens } = value;
+  if (!isNonEmptyString(model)) return `${label} needs a "model"`;
+  if (provider !== undefined && typeof provider !== 'string') return `${label} has a "provider" that is not a string`;
+  if ([temperature, topP, maxTokens].some((setting) => setting !== undefined && !isNumber(setting))) {
+    return `${label} sampling settings must be numbers`;
+  }
+  return {
+    model,
+    ...(typeof provider === 'string' && { provider }),
+    ...(isNumber(temperature) && { temperature }),
+    ...(isNumber(topP) && { topP }),
+    ...(isNumber(maxTokens) && { maxTokens }),
+  };
+};
+
+const toIterationPolicy = (value: unknown, label: string): IterationPolicy | string => {
+  if (!isRecord(value)) return `${label} is not an object`;
+  const { minIterations, maxIterations, improvementThreshold, stopOnTopScore, tournamentRounds } = value;
+  if (!isCount(minIterations) || !isCount(maxIterations)) return `${label} needs whole-number "minIterations" and "maxIterations"`;
+  if (!isNumber(improvementThreshold)) return `${label} needs a numeric "improvementThreshold"`;
+  if (typeof stopOnTopScore !== 'boolean') return `${label} needs a true/false "stopOnTopScore"`;
+  const selection = oneOf(SELECTION_POLICIES, value.selection);
+  if (!selection) return `${label} has an unknown selection "${String(value.selection)}"`;
+  if (tournamentRounds !== undefined && !isCount(tournamentRounds)) return `${label} has an invalid "tournamentRounds"`;
+  return {
+    minIterations,
+    maxIterations,
+    improvementThreshold,
+    stopOnTopScore,
+    selection,
+    ...(isCount(tournamentRounds) && { tournamentRounds }),
+  };
+};
+
+const toJudge = (value: unknown, label: string): JudgeSettings | string => {
+  if (!isRecord(value) || !isNonEmptyString(value.name)) return `${label} needs a "name"`;
+  const { model, provider, temperature, persona } = value;
+  if ([model, provider, persona].some((setting) => setting !== undefined && typeof setting !== 'string')) {
+    return `${label} "model", "provider" and "persona" must be strings`;
+  }
+  if (temperature !== undefined && !isNumber(temperature)) return `${label} has a "temperature" that is not a number`;
+  return {
+    name: value.name,
+    ...(typeof model === 'string' && { model }),
+    ...(typeof provider === 'string' && { provider }),
+    ...(isNumber(temperature) && { temperature }),
+    ...(typeof persona === 'string' && { persona }),
+  };
+};
+
+const toCriticEnsemble = (value: unknown, label: string): CriticEnsembleSettings | string => {
+  if (!isRecord(value)) return `${label} is not an object`;
+  const judges = toList(value.judges, `${label} judges`, toJudge);
+  if (typeof judges === 'string') return judges;
+  if (!judges.length) return `${label} needs at least one judge`;
+  const aggregation = oneOf(Object.keys(RATING_AGGREGATIONS) as RatingAggregation[], value.aggregation);
+  if (!aggregation) return `${label} has an unknown aggregation "${String(value.aggregation)}"`;
+  return { judges, aggregation };
+};
+
+const toSettings = (value: unknown): GenerationSettings | string => {
+  if (!isRecord(value)) return '"settings" is not an object';
+  if (!isRecord(value.stages)) return '"settings" needs the "stages" it ran with';
+  const stages: GenerationSettings['stages'] = {};
+  for (const stage of STAGES) {
+    const settings = optional(value.stages[stage], (recorded) => toStageSettings(recorded, `"settings" ${stage} stage`));
+    if (typeof settings === 'string') return settings;
+    if (settings) stages[stage] = settings;
+  }
+  const iterationPolicy = toIterationPolicy(value.iterationPolicy, '"settings" iteration policy');
+  if (typeof iterationPolicy === 'string') return iterationPolicy;
+  if (!(isCount(value.directionCount) && value.directionCount > 0)) return '"settings" needs a positive "directionCount"';
+  const criticEnsemble = optional(value.criticEnsemble, (ensemble) => toCriticEnsemble(ensemble, '"settings" critic ensemble'));
+  if (typeof criticEnsemble === 'string') return criticEnsemble;
+  const { duplicateThreshold } = value;
+  if (duplicateThreshold !== undefined && !(isNumber(duplicateThreshold) && duplicateThreshold >= 0 && duplicateThreshold <= 1)) {
+    return '"settings" "duplicateThreshold" must be a number from 0 to 1';
+  }
+  return {
+    stages,
+    iterationPolicy,
+    directionCount: value.directionCount,
+    ...(criticEnsemble && { criticEnsemble }),
+    ...(isNumber(duplicateThreshold) && { duplicateThreshold }),
+  };
+};
+
+const toTemplateRef = (value: unknown, label: string): PromptTemplateRef | string => {
+  if (!isRecord(value) || !isNonEmptyString(value.id) || !isNumber(value.version)) return `${label} needs a template "id" and "version"`;
+  return { id: value.id, version: value.version };
+};
+
+const toMatch = (value: unknown, label: string): TournamentMatch | string => {
+  if (!isRecord(value)) return `${label} is not an object`;
+  const { round, a, b } = value;
+  const winner = oneOf(MATCH_WINNERS, value.winner);
+  if (!isCount(round) || !isNonEmptyString(a) || !isNonEmptyString(b) || !winner) {
+    return `${label} needs a "round", the ideas "a" and "b" and a "winner"`;
+  }
+  return { round, a, b, winner };
+};
+
+const toStanding = (value: unknown, label: string): TournamentStanding | string => {
+  if (!isRecord(value)) return `${label} is not an object`;
+  const { ideaId, title, elo, wins, losses, ties } = value;
+  if (!isNonEmptyString(ideaId) || typeof title !== 'string' || !isNumber(elo)) return `${label} needs an "ideaId", "title" and "elo"`;
+  if (!isCount(wins) || !isCount(losses) || !isCount(ties)) return `${label} needs whole-number "wins", "losses" and "ties"`;
+  return { ideaId, title, elo, wins, losses, ties };
+};
+
+const toTournament = (value: unknown): TournamentResult | string => {
+  if (!isRecord(value) || !isCount(value.rounds)) return '"tournament" needs its number of "rounds"';
+  const matches = toList(value.matches, '"tournament" matches', toMatch);
+  if (typeof matches === 'string') return matches;
+  const standings = toList(value.standings, '"tournament" standings', toStanding);
+  if (typeof standings === 'string') return standings;
+  return { rounds: value.rounds, matches, standings };
+};
+
+const toUsage = (value: unknown): TokenUsage | string => {
+  if (!isRecord(value)) return '"usage" is not an object';
+  const { promptTokens, completionTokens, totalTokens } = value;
+  if (!isCount(promptTokens) || !isCount(completionTokens) || !isCount(totalTokens)) return '"usage" token counts must be whole numbers';
+  return { promptTokens, completionTokens, totalTokens };
+};
+
+const toParseRecord = (value: unknown, label: string): ParseRecord | string => {
+  if (!isRecord(value)) return `${label} is not an object`;
+  const { stage, iteration, attempt, repairs, error } = value;
+  const outcome = oneOf(PARSE_OUTCOMES, value.outcome);
+  if (typeof stage !== 'string' || !isCount(iteration) || !isCount(attempt) || !outcome) {
+    return `${label} needs a "stage", "iteration", "attempt" and "outcome"`;
+  }
+  if (repairs !== undefined && !isStringList(repairs)) return `${label} "repairs" must be a list of strings`;
+  if (error !== undefined && typeof error !== 'string') return `${label} "error" must be a string`;
+  return {
+    stage,
+    iteration,
+    attempt,
+    outcome,
+    ...(repairs !== undefined && { repairs }),
+    ...(typeof error === 'string' && { error }),
+  };
+};
+
+const toConversation = (value: unknown): Conversation | string => {
+  if (!isRecord(value)) return 'not an object';
+  if (!isNonEmptyString(value.id)) return 'missing a string "id"';
+  if (!isNonEmptyString(value.prompt)) return 'missing a non-empty "prompt"';
+  const timestamp = value.timestamp === undefined ? Date.now() : toTimestamp(value.timestamp);
+  if (timestamp === undefined) return '"timestamp" is not a date';
+  if (value.mode !== undefined && !isRegisteredMode(value.mode)) return `unknown mode "${String(value.mode)}"`;
+  if (value.diversity !== undefined && !isRating(value.diversity)) return '"diversity" must be a number from 0 to 100';
+  if (value.directions !== undefined && !isStringList(value.directions)) return '"directions" must be a list of strings';
+  if (value.seed !== undefined && !(isCount(value.seed) && value.seed <= MAX_SEED)) return `"seed" must be a whole number up to ${MAX_SEED}`;
+  if (value.bestIteration !== undefined && !(isCount(value.bestIteration) && value.bestIteration > 0)) {
+    return '"bestIteration" must be a positive whole number';
+  }
+
+  const ideas = toIdeas(value.ideas, `${value.id}-idea`, '"ideas"');
+  if (typeof ideas === 'string') return ideas;
+
+  const history: IterationData[] = [];
+  if (value.iterationHistory !== undefined) {
+    if (!Array.isArray(value.iterationHistory)) return '"iterationHistory" must be an array';
+    for (const [index, item] of value.iterationHistory.entries()) {
+      const iteration = toIteration(item, `${value.id}-iter-${index + 1}`, `iteration ${index + 1}`);
+      if (typeof iteration === 'string') return iteration;
+      history.push(iteration);
+    }
+  }
+
+  const settings = optional(value.settings, toSettings);
+  if (typeof settings === 'string') return settings;
+  const templates = optional(value.templates, (templates) => toList(templates, '"templates"', toTemplateRef));
+  if (typeof templates === 'string') return templates;
+  const expansions = optional(value.expansions, (expansions) => toList(expansions, '"expansions"', toExpansion));
+  if (typeof expansions === 'string') return expansions;
+  const tournament = optional(value.tournament, toTournament);
+  if (typeof tournament === 'string') return tournament;
+  const usage = optional(value.usage, toUsage);
+  if (typeof usage === 'string') return usage;
+  const parseLog = optional(value.parseLog, (records) => toList(records, '"parseLog"', toParseRecord));
+  if (typeof parseLog === 'string') return parseLog;
+
+  const text = (field: string, fallback = '') => (typeof value[field] === 'string' ? value[field] as string : fallback);
+
+  // Only the fields checked above are kept; anything else in the record is dropped
+  return {
+    id: value.id,
+    timestamp,
+    mode: (value.mode as Mode | undefined) ?? DEFAULT_MODE,
+    prompt: value.prompt,
+    enhancedPrompt: text('enhancedPrompt', value.prompt),
+    ideas,
+    feedback: text('feedback'),
+    iteration: typeof value.iteration === 'number' ? value.iteration : Math.max(1, history.length),
+    firstIterationResponse: text('firstIterationResponse'),
+    firstIterationFeedback: text('firstIterationFeedback'),
+    bestScore: text('bestScore', 'N/A'),
+    improvementThresholdMet: value.improvementThresholdMet === true,
+    iterationHistory: history,
+    ...(isCount(value.bestIteration) && { bestIteration: value.bestIteration }),
+    ...(value.directions !== undefined && { directions: value.directions }),
+    ...(isCount(value.seed) && { seed: value.seed }),
+    ...(settings && { settings }),
+    ...(templates && { templates }),
+    ...(expansions && { expansions }),
+    ...(isRating(value.diversity) && { diversity: value.diversity }),
+    ...(tournament && { tournament }),
+    ...(usage && { usage }),
+    ...(parseLog && { parseLog }),
+  };
+};
+
+/**
+ * Parses an import file. Conversations whose id is already in `existingIds`,
+ * or repeated within the file, are skipped rather than overwritten.
+ */
+export const importSessions = (text: string, existingIds: Iterable<string> = []): ImportResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`The file is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const payload = toPayload(data);
+  const seen = new Set(existingIds);
+  const conversations: Conversation[] = [];
+  const skipped: SkippedRecord[] = [];
+
+  payload.conversations.forEach((record: unknown, index) => {
+    const id = isRecord(record) && typeof record.id === 'string' ? record.id : undefined;
+    const conversation = toConversation(record);
+    if (typeof conversation === 'string') {
+      skipped.push({ index, id, reason: conversation });
+    } else if (seen.has(conversation.id)) {
+      skipped.push({ index, id, reason: 'a session with this id already exists' });
+    } else {
+      seen.add(conversation.id);
+      conversations.push(conversation);
+    }
+  });
+
+  payload.collections.forEach((_, index) => {
+    skipped.push({ index, reason: 'collections are not imported as sessions' });
+  });
+
+  return { conversations, skipped };
+};
@@ -0,0 +1,21 @@
+import type { ExportOptions, ExportPayload, ExportSource } from './types';
+import { EXPORT_SCHEMA, EXPORT_SCHEMA_VERSION } from './types';
+import { trimConversation } from './shared';
+
+export const toJSON = (source: ExportSource, options: ExportOptions): string => {
+  const payload: ExportPayload = {
+    schema: EXPORT_SCHEMA,
+    version: EXPORT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversations: [],
+    collections: [],
+  };
+  if (source.kind === 'conversation') {
+    payload.conversations.push(trimConversation(source.conversation, options));
+  } else {
+    payload.collections.push(options.includeRatings
+      ? source.collection
+      : { ...source.collection, ideas: source.collection.ideas.map((idea) => ({ ...idea, rating: 0 })) });
+  }
+  return JSON.stringify(payload, null, 2);
+};
@@ -0,0 +1,61 @@
+import { EXPANSION_TEMPLATES } from '../pipeline/expansion';
+import type { ExportOptions, ExportSource } from './types';
+import { modeLabel } from '../pipeline/modes/registry';
+import { formatDate, toRows, trimConversation } from './shared';
+
+// Pushes headings in an embedded document below the idea heading they sit under
+const demoteHeadings = (markdown: string, levels: number) =>
+  markdown.replace(/^(#{1,6}) /gm, (_, hashes: string) => `${'#'.repeat(Math.min(6, hashes.length + levels))} `);
+
+export const toMarkdown = (source: ExportSource, options: ExportOptions): string => {
+  const lines: string[] = [];
+  const rows = toRows(source);
+
+  if (source.kind === 'collection') {
+    const { collection } = source;
+    lines.push(`# ${collection.name}`, '');
+    if (collection.tags.length) lines.push(collection.tags.map((tag) => `#${tag}`).join(' '), '');
+    rows.forEach((row, index) => {
+      lines.push(`## ${index + 1}. ${row.title}`, '');
+      lines.push(`_From "${row.prompt}" · ${modeLabel(row.mode)}${options.includeRatings && row.rating ? ` · Rating ${row.rating}/100` : ''}_`, '');
+      lines.push(row.description, '');
+    });
+    return lines.join('\n').trimEnd() + '\n';
+  }
+
+  const conversation = trimConversation(source.conversation, options);
+  lines.push(`# ${conversation.prompt}`, '');
+  lines.push(`_${modeLabel(conversation.mode)} · ${formatDate(conversation.timestamp)}${
+    options.includeRatings && conversation.bestScore !== 'N/A' ? ` · Best score ${conversation.bestScore}` : ''
+  }_`, '');
+
+  rows.forEach((row, index) => {
+    lines.push(`## ${index + 1}. ${row.title}`, '');
+    if (row.direction) lines.push(`_Creative direction: ${row.direction}_`, '');
+    lines.push(row.description, '');
+    if (options.includeRatings && row.rating) lines.push(`**Rating:** ${row.rating}/100`, '');
+    const ideaId = conversation.ideas[index].id;
+    for (const expansion of conversation.expansions?.filter((doc) => doc.ideaId === ideaId) ?? []) {
+      lines.push(`### ${EXPANSION_TEMPLATES[expansion.template].label}`, '', demoteHeadings(expansion.markdown, 2), '');
+    }
+  });
+
+  if (options.includeFeedback && conversation.feedback) {
+    lines.push('## Critic feedback', '', conversation.feedback, '');
+  }
+
+  if (options.includeHistory && conversation.iterationHistory.length) {
+    lines.push('## Iteration history', '');
+    conversation.iterationHistory.forEach((iteration, index) => {
+      const revision = iteration.revision ? ` (${iteration.revision.action} idea ${iteration.revision.index + 1})` : '';
+      lines.push(`### Iteration ${index + 1}${revision} · ${iteration.score}`, '');
+      iteration.ideas.forEach((idea) => {
+        lines.push(`- ${idea.title}${options.includeRatings && idea.rating ? ` (${idea.rating})` : ''}`);
+      });
+      lines.push('');
+      if (iteration.feedback) lines.push(`> ${iteration.feedback.replace(/\n/g, '\n> ')}`, '');
+    });
+  }
+
+  return lines.join('\n').trimEnd() + '\n';
+};
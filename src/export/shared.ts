@@ -0,0 +1,66 @@
+import type { Conversation, Mode } from '../types';
+import { directionOf } from '../pipeline/directions';
+import { DEFAULT_MODE } from '../pipeline/modes/registry';
+import type { ExportOptions, ExportSource } from './types';
+
+// One flat row per idea, shared by the tabular and document formats
+export interface ExportRow {
+  title: string;
+  description: string;
+  rating: number;
+  prompt: string;
+  mode: Mode;
+  direction?: string;
+}
+
+export const toRows = (source: ExportSource): ExportRow[] => {
+  if (source.kind === 'collection') {
+    return source.collection.ideas.map((idea) => ({
+      title: idea.title,
+      description: idea.description,
+      rating: idea.rating,
+      prompt: idea.prompt,
+      mode: idea.mode,
+      direction: idea.direction,
+    }));
+  }
+  const { conversation } = source;
+  return conversation.ideas.map((idea, index) => ({
+    title: idea.title,
+    description: idea.description,
+    rating: idea.rating,
+    prompt: conversation.prompt,
+    mode: conversation.mode ?? DEFAULT_MODE,
+    direction: directionOf(conversation, index),
+  }));
+};
+
+// Drops whatever the options exclude, so every format exports the same data
+export const trimConversation = (conversation: Conversation, options: ExportOptions): Conversation => {
+  const trimmed: Conversation = {
+    ...conversation,
+    ideas: conversation.ideas.map((idea) => (options.includeRatings ? idea : { ...idea, rating: 0 })),
+    iterationHistory: options.includeHistory
+      ? conversation.iterationHistory.map((iteration) => ({
+          ...iteration,
+          feedback: options.includeFeedback ? iteration.feedback : '',
+          ratings: options.includeRatings ? iteration.ratings : [],
+        }))
+      : [],
+    feedback: options.includeFeedback ? conversation.feedback : '',
+  };
+  if (!options.includeHistory) {
+    trimmed.firstIterationResponse = '';
+    trimmed.firstIterationFeedback = '';
+    delete trimmed.parseLog;
+  }
+  return trimmed;
+};
+
+export const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'ideas';
+
+export const sourceTitle = (source: ExportSource) =>
+  source.kind === 'collection' ? source.collection.name : source.conversation.prompt;
+
+export const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString();
@@ -0,0 +1,47 @@
+import type { Collection, Conversation } from '../types';
+
+export type ExportFormat = 'markdown' | 'json' | 'csv' | 'html';
+
+export type ExportSource =
+  | { kind: 'conversation'; conversation: Conversation }
+  | { kind: 'collection'; collection: Collection };
+
+export interface ExportOptions {
+  includeHistory: boolean;
+  includeRatings: boolean;
+  includeFeedback: boolean;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  includeHistory: false,
+  includeRatings: true,
+  includeFeedback: true,
+};
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+// Identifies JSON exports; bump the version and add a migration in
+// importer.ts whenever the payload shape changes
+export const EXPORT_SCHEMA = 'muse-bot-export';
+export const EXPORT_SCHEMA_VERSION = 2;
+
+// Version 1 held exactly one conversation or collection
+export interface ExportPayloadV1 {
+  schema: typeof EXPORT_SCHEMA;
+  version: 1;
+  exportedAt: string;
+  conversation?: Conversation;
+  collection?: Collection;
+}
+
+export interface ExportPayload {
+  schema: typeof EXPORT_SCHEMA;
+  version: typeof EXPORT_SCHEMA_VERSION;
+  exportedAt: string;
+  conversations: Conversation[];
+  collections: Collection[];
+}
@@ -0,0 +1,98 @@
+import type { Conversation, Direction, DirectionCategory, DirectionMix } from '../types';
+import type { Random } from './random';
+
+export const DIRECTION_CATEGORIES: Record<DirectionCategory, string> = {
+  practical: 'Practical',
+  playful: 'Playful',
+  absurd: 'Absurd',
+  market: 'Market',
+  social: 'Social',
+  aesthetic: 'Aesthetic',
+  technology: 'Technology',
+};
+
+// Built-in direction lists are grouped by category; every entry starts enabled with weight 1
+export const toDirections = (groups: Partial<Record<DirectionCategory, string[]>>, idPrefix: string): Direction[] =>
+  Object.entries(groups).flatMap(([category, texts]) =>
+    texts.map((text, index) => ({
+      id: `${idPrefix}-${category}-${index}`,
+      text: text.trim(),
+      category: category as DirectionCategory,
+      enabled: true,
+      weight: 1,
+    })));
+
+export const isDrawable = (direction: Direction) => direction.enabled && direction.weight > 0;
+
+// Repeats the directions in turn until there is one per idea
+export const fillDirections = (directions: string[], count: number) =>
+  Array.from({ length: count }, (_, index) => directions[index % directions.length]);
+
+/**
+ * Draws `count` distinct directions, each with a chance proportional to its
+ * weight (Efraimidis–Spirakis weighted sampling without replacement), within
+ * the bounds of `mix`: category minimums are filled first, then the rest of
+ * the draw skips categories at their maximum. A mix the library cannot meet
+ * is relaxed rather than failing the run: missing minimums are filled from
+ * other categories, and maximums give way only when nothing else is left.
+ * When fewer directions are drawable than requested, they are reused in turn
+ * so every idea still gets one.
+ */
+export const sampleDirections = (
+  directions: Direction[],
+  count: number,
+  random: Random = Math.random,
+  mix: DirectionMix = {}
+): string[] => {
+  const drawable = directions.filter(isDrawable);
+  if (!drawable.length) throw new Error('No creative directions are enabled in the selected library');
+
+  // One weighted random order; every pass below walks it from the front
+  const ranked = drawable
+    .map((direction) => ({ direction, key: Math.pow(random(), 1 / direction.weight) }))
+    .sort((a, b) => b.key - a.key);
+
+  const chosen = new Set<(typeof ranked)[number]>();
+  const inCategory = (category?: DirectionCategory) =>
+    [...chosen].filter((entry) => entry.direction.category === category).length;
+
+  for (const [category, { min = 0 }] of Object.entries(mix) as [DirectionCategory, { min?: number }][]) {
+    for (const entry of ranked) {
+      if (chosen.size >= count || inCategory(category) >= min) break;
+      if (entry.direction.category === category) chosen.add(entry);
+    }
+  }
+
+  const underMax = (entry: (typeof ranked)[number]) => {
+    const max = entry.direction.category && mix[entry.direction.category]?.max;
+    return max === undefined || inCategory(entry.direction.category) < max;
+  };
+  for (const respectMax of [true, false]) {
+    for (const entry of ranked) {
+      if (chosen.size >= count) break;
+      if (!chosen.has(entry) && (!respectMax || underMax(entry))) chosen.add(entry);
+    }
+  }
+
+  // Keep the random order so the constrained picks are not always first
+  const drawn = ranked.filter((entry) => chosen.has(entry)).map(({ direction }) => direction.text);
+  return fillDirections(drawn, count);
+};
+
+/**
+ * Ties each generated idea to one of the directions it was asked for. The
+ * generator echoes the direction it used; when that is missing or does not
+ * match a requested one, the idea is given the direction in its position.
+ */
+export const assignDirections = <T extends { direction?: string }>(ideas: T[], directions: string[]): T[] => {
+  if (!directions.length) return ideas;
+  const byText = new Map(directions.map((direction) => [direction.trim().toLowerCase(), direction]));
+  return ideas.map((idea, index) => ({
+    ...idea,
+    direction: byText.get(idea.direction?.trim().toLowerCase() ?? '') ?? directions[index % directions.length],
+  }));
+};
+
+// Direction of an idea in a finished run, including sessions saved before ideas carried their own
+export const directionOf = (conversation: Conversation, index: number) =>
+  conversation.ideas[index]?.direction ?? conversation.directions?.[index];
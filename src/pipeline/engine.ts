@@ -0,0 +1,430 @@
+import type {
+  Conversation,
+  DuplicateFlag,
+  ExpansionTemplate,
+  Idea,
+  IdeaExpansion,
+  IterationData,
+  JudgeVerdict,
+  RevisionAction,
+  TokenUsage,
+  TournamentResult,
+} from '../types';
+import { assignDirections, directionOf, fillDirections, sampleDirections } from './directions';
+import { critique, judgeRatingsFor } from './ensemble';
+import { buildExpansionMessage, stripMarkdownFence } from './expansion';
+import { createRandom, randomSeed, randomToken, type Random } from './random';
+import { applySettings, captureSettings } from './replay';
+import { createStageRunner, type StageRunner } from './runner';
+import { averageRating, pickBestIteration, pickBestVersions } from './selection';
+import { DUPLICATE_THRESHOLD, diversityScore, findDuplicates, type SimilarityReference } from './similarity';
+import { DEFAULT_TOURNAMENT_ROUNDS, runTournament, strongestPerSlot, tournamentCandidates } from './tournament';
+import type {
+  CriticResponse,
+  GeneratedIdea,
+  PipelineConfig,
+  PipelineListener,
+  PipelineOptions,
+  RunOptions,
+  ShownIdea,
+} from './types';
+
+/**
+ * Ideation pipeline: enhancer → generator → critic, with an optional
+ * refinement loop driven by the critic's feedback, plus single-idea revisions
+ * and expansions of a finished run. Near-duplicate ideas are replaced before
+ * the critic sees a set. Has no knowledge of React or the transport used to reach
+ * the model.
+ */
+
+const TOP_SCORE = 'A++';
+
+// Idea ids pair the run's own id, which keeps them unique across sessions, with a token from its seeded random source
+const rateIdeas = (
+  ideas: GeneratedIdea[],
+  ratings: number[],
+  verdicts: JudgeVerdict[] | undefined,
+  directions: string[],
+  idPrefix: string,
+  random: Random
+): Idea[] =>
+  assignDirections(ideas, directions).map((idea, index) => ({
+    ...idea,
+    rating: ratings[index] || 0,
+    ...(verdicts && { judgeRatings: judgeRatingsFor(verdicts, index) }),
+    id: `${idPrefix}-${randomToken(random)}`,
+    createdAt: Date.now()
+  }));
+
+// An earlier idea as the model is shown it: without its run-specific id and time, so the same seed gives the same prompts
+const forPrompt = ({ title, description, direction, rating, judgeRatings }: Idea): ShownIdea => ({
+  title,
+  description,
+  ...(direction !== undefined && { direction }),
+  rating,
+  ...(judgeRatings && { judgeRatings }),
+});
+
+// Replacement requests per generated set before any remaining duplicates are kept
+const MAX_REPLACEMENT_ROUNDS = 2;
+
+const DUPLICATE_SOURCES: Record<DuplicateFlag['similarTo']['source'], string> = {
+  set: 'another idea in the set',
+  iteration: 'an idea from an earlier iteration',
+  history: 'an idea from a previous session',
+};
+
+/**
+ * Checks a generated set for near-duplicates and asks the generator for a
+ * fresh idea in place of each one, through the mode's "regenerate" revision.
+ * Replacements are checked again; duplicates still left after
+ * MAX_REPLACEMENT_ROUNDS are kept and flagged as not replaced. Replacements
+ * are not streamed; each is announced with a "replacement" event instead.
+ */
+async function replaceDuplicates(
+  runner: StageRunner,
+  config: PipelineConfig,
+  generated: GeneratedIdea[],
+  { enhancedPrompt, directions, references, iteration, onEvent }: {
+    enhancedPrompt: string;
+    directions: string[];
+    references: SimilarityReference[];
+    iteration: number;
+    onEvent?: PipelineListener;
+  }
+): Promise<{ ideas: GeneratedIdea[]; duplicates: DuplicateFlag[] }> {
+  const threshold = config.duplicateThreshold ?? DUPLICATE_THRESHOLD;
+  const duplicates: DuplicateFlag[] = [];
+  let ideas = generated;
+
+  for (let round = 0; ; round++) {
+    const found = findDuplicates(ideas, references, threshold);
+    if (round === MAX_REPLACEMENT_ROUNDS || !found.length) {
+      duplicates.push(...found);
+      return { ideas, duplicates };
+    }
+
+    const assigned = assignDirections(ideas, directions);
+    for (const flag of found) {
+      const { similarTo } = flag;
+      const { value: [replacement] } = await runner.generateIdeas(config.generator, config.buildRevisionMessage({
+        action: 'regenerate',
+        enhancedPrompt,
+        idea: ideas[flag.index],
+        feedback: `This idea is too similar to "${similarTo.title}", ${DUPLICATE_SOURCES[similarTo.source]}. Replace it with a clearly different idea.`,
+        direction: assigned[flag.index].direction,
+        otherIdeas: ideas.filter((_, i) => i !== flag.index),
+      }), iteration, { count: 1, stream: false });
+      ideas = ideas.map((idea, i) => (i === flag.index ? { ...replacement, direction: assigned[i].direction } : idea));
+      duplicates.push({ ...flag, replaced: true });
+      onEvent?.({ type: 'replacement', iteration, index: flag.index, idea: ideas[flag.index] });
+    }
+  }
+}
+
+const addUsage = (a: TokenUsage | undefined, b: TokenUsage): TokenUsage => ({
+  promptTokens: (a?.promptTokens ?? 0) + b.promptTokens,
+  completionTokens: (a?.completionTokens ?? 0) + b.completionTokens,
+  totalTokens: (a?.totalTokens ?? 0) + b.totalTokens,
+});
+
+export async function runPipeline(
+  prompt: string,
+  baseConfig: PipelineConfig,
+  { client, onEvent, signal }: PipelineOptions,
+  { seed = randomSeed(), directions, settings, history = [] }: RunOptions = {}
+): Promise<Conversation> {
+  const config = settings ? applySettings(baseConfig, settings) : baseConfig;
+  const random = createRandom(seed);
+  const runId = Date.now().toString();
+  const ideaPrefix = `${config.idPrefix}-${runId}`;
+  const runner = createStageRunner({ client, onEvent, signal }, config.maxParseRetries);
+
+  const recordIteration = (iteration: number, data: IterationData) => {
+    iterationHistory.push(data);
+    onEvent?.({ type: 'iteration', iteration, data });
+  };
+
+  // Enhance prompt
+  const enhancedPrompt = await runner.call('enhancer', config.enhancer, prompt, 0);
+  if (!enhancedPrompt) throw new Error('Failed to enhance the prompt');
+  onEvent?.({ type: 'enhanced', enhancedPrompt });
+
+  // Select unique creative directions for this run, unless they were given
+  const selectedDirections = directions?.length
+    ? fillDirections(directions, config.directionCount)
+    : sampleDirections(config.directions, config.directionCount, random, config.directionMix);
+
+  const iterationHistory: IterationData[] = [];
+  let currentPrompt = enhancedPrompt;
+
+  // New ideas must not repeat the user's saved sessions, nor ideas of other slots in earlier iterations
+  const historyReferences: SimilarityReference[] = history.flatMap((past) =>
+    past.ideas.map((idea) => ({ idea, source: 'history' as const, conversationId: past.id })));
+  const iterationReferences = (): SimilarityReference[] => iterationHistory.flatMap((data, index) =>
+    data.ideas.map((idea, slot) => ({ idea, source: 'iteration' as const, iteration: index + 1, slot })));
+
+  // Initial generation with unique directions per idea
+  const { raw: firstIterationResponse, value: firstIdeas } = await runner.generateIdeas(
+    config.generator,
+    config.buildGeneratorMessage(enhancedPrompt, selectedDirections),
+    1,
+    { count: selectedDirections.length }
+  );
+  const { ideas: initialIdeas, duplicates: initialDuplicates } = await replaceDuplicates(runner, config, firstIdeas, {
+    enhancedPrompt,
+    directions: selectedDirections,
+    references: historyReferences,
+    iteration: 1,
+    onEvent,
+  });
+
+  let criticism: CriticResponse = { ratings: [], feedback: '', overallScore: 'N/A' };
+  let verdicts: JudgeVerdict[] | undefined;
+  let firstIterationFeedback = '';
+  if (config.critic) {
+    const result = await critique(runner, config.critic, config.criticEnsemble, {
+      originalPrompt: prompt,
+      currentPrompt,
+      ideas: initialIdeas,
+      iteration: 1
+    }, 1);
+    ({ criticism, verdicts } = result);
+    firstIterationFeedback = result.raw;
+  }
+
+  const policy = config.iterationPolicy;
+  let latestIdeas = rateIdeas(initialIdeas, criticism.ratings, verdicts, selectedDirections, ideaPrefix, random);
+  let latestFeedback = criticism.feedback;
+  let lastIterationScore = averageRating(criticism.ratings);
+  let improvementThresholdMet = !!config.critic;
+  let iteration = 1;
+
+  recordIteration(iteration, {
+    ideas: latestIdeas,
+    feedback: criticism.feedback,
+    score: criticism.overallScore,
+    ratings: criticism.ratings,
+    ...(verdicts && { judges: verdicts }),
+    ...(initialDuplicates.length && { duplicates: initialDuplicates }),
+  });
+
+  // Refinement loop - only meaningful when there is a critic to steer it
+  while (config.critic && iteration < policy.maxIterations) {
+    const latest = iterationHistory[iterationHistory.length - 1];
+    if (policy.stopOnTopScore && latest.score === TOP_SCORE) break;
+    if (iteration >= policy.minIterations && !improvementThresholdMet) break;
+
+    const refinementMessage = config.buildRefinementMessage({
+      enhancedPrompt,
+      currentPrompt,
+      feedback: latestFeedback,
+      previousIdeas: latestIdeas.map(forPrompt),
+      directions: selectedDirections,
+    });
+
+    const { value: refined } = await runner.generateIdeas(config.generator, refinementMessage, iteration + 1, {
+      count: selectedDirections.length,
+    });
+    const { ideas, duplicates } = await replaceDuplicates(runner, config, refined, {
+      enhancedPrompt,
+      directions: selectedDirections,
+      references: [...iterationReferences(), ...historyReferences],
+      iteration: iteration + 1,
+      onEvent,
+    });
+
+    const { criticism: nextCriticism, verdicts: nextVerdicts } = await critique(runner, config.critic, config.criticEnsemble, {
+      originalPrompt: prompt,
+      currentPrompt,
+      ideas,
+      iteration: iteration + 1,
+      previousIdeas: latestIdeas.map(forPrompt)
+    }, iteration + 1);
+
+    const currentAverage = averageRating(nextCriticism.ratings);
+    const improvement = lastIterationScore ? (currentAverage - lastIterationScore) / lastIterationScore : 0;
+    improvementThresholdMet = improvement >= policy.improvementThreshold;
+    lastIterationScore = currentAverage;
+
+    latestIdeas = rateIdeas(ideas, nextCriticism.ratings, nextVerdicts, selectedDirections, ideaPrefix, random);
+    latestFeedback = nextCriticism.feedback;
+    iteration++;
+
+    recordIteration(iteration, {
+      ideas: latestIdeas,
+      feedback: nextCriticism.feedback,
+      score: nextCriticism.overallScore,
+      ratings: nextCriticism.ratings,
+      ...(nextVerdicts && { judges: nextVerdicts }),
+      ...(duplicates.length && { duplicates }),
+    });
+
+    currentPrompt = `${enhancedPrompt}\n\nPrevious iteration feedback: ${nextCriticism.feedback}`;
+  }
+
+  // Keep the best of the run, not simply the last iteration
+  const bestIndex = pickBestIteration(iterationHistory);
+  let finalIdeas = policy.selection === 'best-iteration'
+    ? iterationHistory[bestIndex].ideas
+    : pickBestVersions(iterationHistory);
+
+  // A tournament ranks every idea of the run and keeps the strongest version of each slot, whichever iteration it came from
+  let tournament: TournamentResult | undefined;
+  if (policy.selection === 'tournament' && config.comparator) {
+    const { ideas, result } = await runTournament(runner, config.comparator, tournamentCandidates(iterationHistory), {
+      originalPrompt: prompt,
+      currentPrompt,
+      rounds: policy.tournamentRounds ?? DEFAULT_TOURNAMENT_ROUNDS,
+      random,
+      iteration,
+    });
+    finalIdeas = strongestPerSlot(ideas, iterationHistory, config.directionCount);
+    tournament = result;
+  }
+
+  const conversation: Conversation = {
+    id: runId,
+    timestamp: Date.now(),
+    mode: config.mode,
+    prompt,
+    enhancedPrompt: currentPrompt,
+    ideas: finalIdeas,
+    feedback: latestFeedback,
+    iteration,
+    firstIterationResponse,
+    firstIterationFeedback,
+    bestScore: iterationHistory[bestIndex].score,
+    improvementThresholdMet,
+    iterationHistory,
+    bestIteration: bestIndex + 1,
+    directions: selectedDirections,
+    seed,
+    settings: captureSettings(config),
+    ...(config.templates && { templates: config.templates }),
+    diversity: diversityScore(finalIdeas),
+    ...(tournament && { tournament }),
+    usage: runner.usage,
+    parseLog: runner.parseLog,
+  };
+
+  onEvent?.({ type: 'complete', conversation });
+  return conversation;
+}
+
+/**
+ * Sends one idea of a finished run back through the generator with the
+ * critic feedback and its creative direction, re-scores it with the critic
+ * and returns a new conversation with the idea replaced. The rest of the set
+ * is untouched; the revision is appended to the iteration history.
+ */
+export async function reviseIdea(
+  conversation: Conversation,
+  index: number,
+  action: RevisionAction,
+  config: PipelineConfig,
+  { client, onEvent, signal }: PipelineOptions
+): Promise<Conversation> {
+  const idea = conversation.ideas[index];
+  if (!idea) throw new Error(`There is no idea ${index + 1} to revise`);
+
+  const runner = createStageRunner({ client, onEvent, signal }, config.maxParseRetries);
+  const iteration = conversation.iterationHistory.length + 1;
+  const direction = directionOf(conversation, index);
+
+  const { value: [revised] } = await runner.generateIdeas(config.generator, config.buildRevisionMessage({
+    action,
+    enhancedPrompt: conversation.enhancedPrompt,
+    idea,
+    feedback: conversation.feedback,
+    direction,
+    otherIdeas: conversation.ideas.filter((_, i) => i !== index),
+  }), iteration, { count: 1 });
+
+  let criticism: CriticResponse = { ratings: [], feedback: conversation.feedback, overallScore: conversation.bestScore };
+  let verdicts: JudgeVerdict[] | undefined;
+  if (config.critic) {
+    ({ criticism, verdicts } = await critique(runner, config.critic, config.criticEnsemble, {
+      originalPrompt: conversation.prompt,
+      currentPrompt: conversation.enhancedPrompt,
+      ideas: [revised],
+      iteration,
+      previousIdeas: [forPrompt(idea)]
+    }, iteration));
+  }
+
+  const replacement: Idea = {
+    ...revised,
+    direction,
+    rating: criticism.ratings[0] || 0,
+    ...(verdicts && { judgeRatings: judgeRatingsFor(verdicts, 0) }),
+    // Unique within the session by its iteration, and across sessions by the session's id
+    id: `${config.idPrefix}-${conversation.id}-${iteration}-${action}`,
+    createdAt: Date.now()
+  };
+  const ideas = conversation.ideas.map((existing, i) => (i === index ? replacement : existing));
+
+  // The critic only saw one idea, so the set keeps its previous overall score
+  const data: IterationData = {
+    ideas,
+    feedback: criticism.feedback,
+    score: conversation.bestScore,
+    ratings: ideas.map((current) => current.rating),
+    revision: { index, action },
+  };
+  onEvent?.({ type: 'iteration', iteration, data });
+
+  const revisedConversation: Conversation = {
+    ...conversation,
+    ideas,
+    diversity: diversityScore(ideas),
+    iterationHistory: [...conversation.iterationHistory, data],
+    usage: addUsage(conversation.usage, runner.usage),
+    parseLog: [...(conversation.parseLog ?? []), ...runner.parseLog],
+  };
+
+  onEvent?.({ type: 'complete', conversation: revisedConversation });
+  return revisedConversation;
+}
+
+/**
+ * Runs the expander stage on one idea of a finished run and returns a new
+ * conversation with the resulting Markdown document saved in `expansions`,
+ * replacing any earlier document for the same idea and template.
+ */
+export async function expandIdea(
+  conversation: Conversation,
+  index: number,
+  template: ExpansionTemplate,
+  config: PipelineConfig,
+  { client, onEvent, signal }: PipelineOptions
+): Promise<Conversation> {
+  if (!config.expander) throw new Error('This mode cannot expand ideas');
+  const idea = conversation.ideas[index];
+  if (!idea) throw new Error(`There is no idea ${index + 1} to expand`);
+
+  const runner = createStageRunner({ client, onEvent, signal }, config.maxParseRetries);
+  const text = await runner.call('expander', config.expander, buildExpansionMessage({
+    template,
+    prompt: conversation.prompt,
+    idea,
+    direction: directionOf(conversation, index),
+  }), conversation.iterationHistory.length);
+
+  const markdown = stripMarkdownFence(text);
+  if (!markdown) throw new Error('The expander returned an empty document');
+
+  const expansion: IdeaExpansion = { ideaId: idea.id, template, markdown, timestamp: Date.now() };
+  const expandedConversation: Conversation = {
+    ...conversation,
+    expansions: [
+      ...(conversation.expansions ?? []).filter((existing) =>
+        existing.ideaId !== idea.id || existing.template !== template),
+      expansion,
+    ],
+    usage: addUsage(conversation.usage, runner.usage),
+  };
+
+  onEvent?.({ type: 'complete', conversation: expandedConversation });
+  return expandedConversation;
+}
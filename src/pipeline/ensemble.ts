@@ -0,0 +1,162 @@
+import type { CriticEnsembleSettings, Idea, JudgeSettings, JudgeVerdict, RatingAggregation } from '../types';
+import type { StageRunner } from './runner';
+import type { CriticResponse, StageConfig } from './types';
+import { averageRating } from './selection';
+
+/**
+ * Critic ensembles: the critic stage fanned out to several judges, each a
+ * variation of the critic (model, temperature or persona), with their
+ * ratings aggregated per idea and the overall score derived from the
+ * aggregate. Judges that fail are dropped as long as one of them answers.
+ */
+
+// Personas a judge can refer to by id; any other persona text is used as written
+export const JUDGE_PERSONAS: Record<string, string> = {
+  skeptic: 'You are a skeptical judge. Look hard for weaknesses and only rate an idea highly when it clearly earns it.',
+  enthusiast: 'You are an enthusiastic judge. Reward ambition, originality and bold swings, even when they are rough around the edges.',
+  pragmatist: 'You are a pragmatic judge. Weigh how realistic and usable each idea is above how novel it sounds.',
+  audience: 'You judge as a member of the general public would: is it clear, appealing and memorable at first read?',
+};
+
+export const RATING_AGGREGATIONS: Record<RatingAggregation, string> = {
+  mean: 'Mean',
+  median: 'Median',
+  'trimmed-mean': 'Trimmed mean',
+};
+
+// Standard deviation of the judges' ratings at which an idea is flagged as contested
+export const HIGH_DISAGREEMENT = 15;
+
+export const aggregateRatings = (values: number[], method: RatingAggregation): number => {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  if (method === 'median') {
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  }
+  // Drops the top and bottom 20% (at least one of each from three judges up)
+  const trim = method === 'trimmed-mean' && sorted.length >= 3 ? Math.max(1, Math.floor(sorted.length * 0.2)) : 0;
+  return averageRating(sorted.slice(trim, sorted.length - trim));
+};
+
+// Population standard deviation; 0 for fewer than two ratings
+export const ratingSpread = (values: number[]) => {
+  if (values.length < 2) return 0;
+  const mean = averageRating(values);
+  return Math.sqrt(averageRating(values.map((value) => (value - mean) ** 2)));
+};
+
+// Overall score for an aggregated average, on the critic's own A++ … C scale
+export const scoreFromRating = (rating: number) =>
+  rating >= 95 ? 'A++' : rating >= 90 ? 'A+' : rating >= 80 ? 'A' : rating >= 65 ? 'B' : 'C';
+
+// Each judge's rating of the idea at `index`, keyed by judge name
+export const judgeRatingsFor = (verdicts: JudgeVerdict[], index: number): Idea['judgeRatings'] =>
+  Object.fromEntries(verdicts.map((verdict) => [verdict.judge, verdict.ratings[index] ?? 0]));
+
+const isBuiltInPersona = (persona: unknown): persona is string =>
+  typeof persona === 'string' && Object.keys(JUDGE_PERSONAS).includes(persona);
+
+const judgeStage = (critic: StageConfig, judge: JudgeSettings): StageConfig => {
+  const persona = isBuiltInPersona(judge.persona) ? JUDGE_PERSONAS[judge.persona] : judge.persona;
+  return {
+    ...critic,
+    ...(judge.model && { model: judge.model }),
+    ...(judge.provider && { provider: judge.provider }),
+    ...(judge.temperature !== undefined && { temperature: judge.temperature }),
+    instruction: persona ? `${critic.instruction}\n\nJudge persona: ${persona}` : critic.instruction,
+  };
+};
+
+export interface EnsembleCriticism {
+  criticism: CriticResponse;
+  raw: string;
+  verdicts?: JudgeVerdict[];
+}
+
+/**
+ * Scores ideas with the critic, or with every judge of the ensemble when
+ * one is configured. `raw` is the critic's raw response, or each judge's
+ * response under its name.
+ */
+export async function critique(
+  runner: StageRunner,
+  critic: StageConfig,
+  ensemble: CriticEnsembleSettings | undefined,
+  payload: { ideas: unknown[] } & Record<string, unknown>,
+  iteration: number
+): Promise<EnsembleCriticism> {
+  if (!ensemble?.judges.length) {
+    const { value, raw } = await runner.critique(critic, payload, iteration);
+    return { criticism: value, raw };
+  }
+
+  const results = await Promise.allSettled(
+    ensemble.judges.map((judge) => runner.critique(judgeStage(critic, judge), payload, iteration))
+  );
+  const answered = results.flatMap((result, index) =>
+    result.status === 'fulfilled' ? [{ judge: ensemble.judges[index].name, ...result.value }] : []);
+  if (!answered.length) throw (results[0] as PromiseRejectedResult).reason;
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      console.warn(`⚠️ Judge "${ensemble.judges[index].name}" failed and was left out:`, result.reason);
+    }
+  });
+
+  const verdicts: JudgeVerdict[] = answered.map(({ judge, value }) => ({ judge, ...value }));
+  const ratings = payload.ideas.map((_, index) =>
+    Math.round(aggregateRatings(verdicts.map((verdict) => verdict.ratings[index]), ensemble.aggregation)));
+
+  return {
+    criticism: {
+      ratings,
+      feedback: verdicts.map((verdict) => `${verdict.judge}: ${verdict.feedback}`).join('\n\n'),
+      overallScore: scoreFromRating(averageRating(ratings)),
+    },
+    raw: answered.map(({ judge, raw }) => `[${judge}]\n${raw}`).join('\n\n'),
+    verdicts,
+  };
+}
+
+/**
+ * Reads an ensemble from a JSON array of judges such as
+ * `[{ "model": "gemini-2.0-flash", "temperature": 0.2 }, { "persona": "skeptic" }]`.
+ * Judges without a name are named after their built-in persona or model;
+ * names are made unique since ratings are keyed by them.
+ */
+export const parseCriticEnsemble = (text: string, aggregation: string = 'mean'): CriticEnsembleSettings => {
+  if (!Object.keys(RATING_AGGREGATIONS).includes(aggregation)) {
+    throw new Error(`Unknown rating aggregation "${aggregation}"`);
+  }
+  const data: unknown = JSON.parse(text);
+  if (!Array.isArray(data) || !data.length) throw new Error('Judges must be a non-empty JSON array');
+
+  const names = new Set<string>();
+  const judges = data.map((value, index): JudgeSettings => {
+    const label = `Judge ${index + 1}`;
+    if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error(`${label} is not an object`);
+    const { name, model, provider, temperature, persona } = value as Record<string, unknown>;
+    for (const [field, fieldValue] of Object.entries({ name, model, provider, persona })) {
+      if (fieldValue !== undefined && typeof fieldValue !== 'string') throw new Error(`${label} has a non-string "${field}"`);
+    }
+    if (temperature !== undefined && (typeof temperature !== 'number' || temperature < 0 || temperature > 2)) {
+      throw new Error(`${label} has a temperature outside 0-2`);
+    }
+
+    const judge = value as Partial<JudgeSettings>;
+    const base = judge.name?.trim() || (isBuiltInPersona(persona) && persona) || judge.model || label;
+    let unique = base;
+    for (let suffix = 2; names.has(unique); suffix++) unique = `${base} ${suffix}`;
+    names.add(unique);
+
+    return {
+      name: unique,
+      ...(judge.model && { model: judge.model }),
+      ...(judge.provider && { provider: judge.provider }),
+      ...(judge.temperature !== undefined && { temperature: judge.temperature }),
+      ...(judge.persona && { persona: judge.persona }),
+    };
+  });
+
+  return { judges, aggregation: aggregation as RatingAggregation };
+};
@@ -0,0 +1,81 @@
+import type { ExpansionTemplate, Idea } from '../types';
+
+/**
+ * Document templates for the expander stage. Each template lists the
+ * Markdown sections the model must fill in; the expander instruction itself
+ * belongs to the mode.
+ */
+
+export interface ExpansionTemplateDefinition {
+  label: string;
+  sections: string[];
+  guidance: string;
+}
+
+export const EXPANSION_TEMPLATES: Record<ExpansionTemplate, ExpansionTemplateDefinition> = {
+  concept: {
+    label: 'Concept brief',
+    sections: ['Problem', 'Target Audience', 'Core Features', 'MVP Steps', 'Risks', 'Success Metrics'],
+    guidance: 'Use short paragraphs for the problem and audience, bullet lists elsewhere, and number the MVP steps.',
+  },
+  'lean-canvas': {
+    label: 'Lean canvas',
+    sections: [
+      'Problem',
+      'Customer Segments',
+      'Unique Value Proposition',
+      'Solution',
+      'Channels',
+      'Revenue Streams',
+      'Cost Structure',
+      'Key Metrics',
+      'Unfair Advantage',
+    ],
+    guidance: 'Keep every section to 1-3 bullet points, as on a one-page canvas.',
+  },
+  prd: {
+    label: 'One-page PRD',
+    sections: [
+      'Overview',
+      'Problem',
+      'Target Users',
+      'Goals & Success Metrics',
+      'Core Features',
+      'MVP Scope & Milestones',
+      'Risks & Open Questions',
+    ],
+    guidance: 'Write core features as numbered requirements and keep the whole document to one page.',
+  },
+  pitch: {
+    label: 'Short pitch',
+    sections: ['Hook', 'Problem', 'Solution', "Who It's For", 'Why Now', 'First Steps', 'Risks'],
+    guidance: 'Keep it under 250 words, punchy and persuasive.',
+  },
+};
+
+export interface ExpansionContext {
+  template: ExpansionTemplate;
+  prompt: string;
+  idea: Idea;
+  direction?: string;
+}
+
+export const buildExpansionMessage = ({ template, prompt, idea, direction }: ExpansionContext) => {
+  const { label, sections, guidance } = EXPANSION_TEMPLATES[template];
+  return `Expand the following idea into a ${label}.
+
+Original request: ${prompt}
+${direction ? `Creative direction: ${direction}\n` : ''}
+Idea:
+# ${idea.title}
+${idea.description}
+
+Use exactly these Markdown sections, each as a "## " heading, in this order:
+${sections.map((section) => `- ${section}`).join('\n')}
+
+${guidance}`;
+};
+
+// Models sometimes wrap the whole document in a ```markdown fence
+export const stripMarkdownFence = (text: string) =>
+  text.trim().replace(/^```(?:markdown|md)?\s*\n([\s\S]*?)\n?```$/, '$1').trim();
@@ -0,0 +1,206 @@
+import type { CriticResponse, GeneratedIdea } from './types';
+
+/**
+ * Structured-output helpers: lenient JSON extraction with repair, plus
+ * schema checks for generator, critic and comparator responses. Validators return a
+ * list of problems (empty when valid) so the text can be fed back to the
+ * model when re-asking.
+ */
+
+export const SCORES = ['A++', 'A+', 'A', 'B', 'C'];
+
+export interface RepairResult {
+  value: unknown;
+  repairs: string[];
+}
+
+// How many opening brackets to try before giving up on a response
+const MAX_CANDIDATES = 20;
+
+interface Candidate {
+  text: string;
+  complete: boolean;
+}
+
+// Walks a JSON-ish string, calling visit for every character outside string literals
+const scan = (text: string, visit: (ch: string, index: number) => boolean | void) => {
+  let inString = false;
+  let escaped = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    if (visit(ch, i) === false) break;
+  }
+  return inString;
+};
+
+// Each "[" or "{" in the text starts a candidate running to its matching bracket, or to the end if truncated
+const findCandidates = (text: string): Candidate[] => {
+  const candidates: Candidate[] = [];
+  for (let start = text.search(/[[{]/); start !== -1 && candidates.length < MAX_CANDIDATES;) {
+    let depth = 0;
+    let end = -1;
+    scan(text.slice(start), (ch, i) => {
+      if (ch === '{' || ch === '[') depth++;
+      else if (ch === '}' || ch === ']') {
+        depth--;
+        if (depth === 0) {
+          end = start + i + 1;
+          return false;
+        }
+      }
+    });
+    candidates.push(end === -1
+      ? { text: text.slice(start), complete: false }
+      : { text: text.slice(start, end), complete: true });
+
+    const next = text.slice(start + 1).search(/[[{]/);
+    start = next === -1 ? -1 : start + 1 + next;
+  }
+  return candidates;
+};
+
+const removeTrailingCommas = (text: string) => {
+  const drop = new Set<number>();
+  scan(text, (ch, i) => {
+    if (ch === ',' && /^\s*[}\]]/.test(text.slice(i + 1))) drop.add(i);
+  });
+  return [...text].filter((_, i) => !drop.has(i)).join('');
+};
+
+// Cuts a truncated array back to its last complete element, or closes every open bracket
+const closeTruncated = (text: string): { text: string; repair: string } => {
+  const stack: string[] = [];
+  let lastElementEnd = -1;
+  const inString = scan(text, (ch, i) => {
+    if (ch === '{' || ch === '[') stack.push(ch === '{' ? '}' : ']');
+    else if (ch === '}' || ch === ']') {
+      stack.pop();
+      if (stack.length === 1 && text[0] === '[') lastElementEnd = i + 1;
+    }
+  });
+
+  if (text[0] === '[' && lastElementEnd !== -1) {
+    return { text: text.slice(0, lastElementEnd) + ']', repair: 'dropped truncated trailing element' };
+  }
+
+  let closed = inString ? text + '"' : text;
+  closed = closed.replace(/[\s,:]+$/, '');
+  return { text: closed + stack.reverse().join(''), repair: 'closed truncated JSON' };
+};
+
+const tryParse = (text: string): { ok: true; value: unknown } | { ok: false } => {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    return { ok: false };
+  }
+};
+
+/**
+ * Pulls the first usable JSON value out of a model response. Tolerates
+ * surrounding prose and code fences, and repairs smart quotes, trailing
+ * commas and truncated output. Every repair applied is listed in the result.
+ */
+export const repairAndParseJSON = (text: string): RepairResult => {
+  const baseRepairs: string[] = [];
+  let source = text;
+
+  // Only treat curly quotes as delimiters when the model used no straight ones
+  if (!source.includes('"') && /[“”]/.test(source)) {
+    source = source.replace(/[“”„‟]/g, '"');
+    baseRepairs.push('replaced smart quotes');
+  }
+
+  for (const candidate of findCandidates(source)) {
+    const repairs = [...baseRepairs];
+    let current = candidate.text;
+
+    let parsed = tryParse(current);
+    if (parsed.ok) return { value: parsed.value, repairs };
+
+    const withoutCommas = removeTrailingCommas(current);
+    if (withoutCommas !== current) {
+      current = withoutCommas;
+      repairs.push('removed trailing commas');
+      parsed = tryParse(current);
+      if (parsed.ok) return { value: parsed.value, repairs };
+    }
+
+    if (!candidate.complete) {
+      const closed = closeTruncated(current);
+      parsed = tryParse(removeTrailingCommas(closed.text));
+      if (parsed.ok) return { value: parsed.value, repairs: [...repairs, closed.repair] };
+    }
+  }
+
+  throw new Error('No valid JSON found');
+};
+
+export const isGeneratedIdea = (value: unknown): value is GeneratedIdea =>
+  !!value &&
+  typeof value === 'object' &&
+  typeof (value as GeneratedIdea).title === 'string' &&
+  typeof (value as GeneratedIdea).description === 'string';
+
+export const ideaProblems = (value: unknown, ideaCount?: number): string[] => {
+  if (!Array.isArray(value)) return ['expected a JSON array of idea objects'];
+  if (!value.length) return ['the array of ideas is empty'];
+
+  const problems = value.flatMap((idea, index) => {
+    const label = `idea ${index + 1}`;
+    if (!idea || typeof idea !== 'object') return [`${label} is not an object`];
+    const problems: string[] = [];
+    if (typeof idea.title !== 'string' || !idea.title.trim()) problems.push(`${label} needs a non-empty "title" string`);
+    if (typeof idea.description !== 'string' || !idea.description.trim()) problems.push(`${label} needs a non-empty "description" string`);
+    if (idea.direction !== undefined && typeof idea.direction !== 'string') problems.push(`${label} has a "direction" that is not a string`);
+    return problems;
+  });
+  if (ideaCount !== undefined && value.length !== ideaCount) problems.push(`expected ${ideaCount} ideas, got ${value.length}`);
+  return problems;
+};
+
+export const criticProblems = (value: unknown, ideaCount?: number): string[] => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return ['expected a JSON object'];
+  const candidate = value as Record<string, unknown>;
+  const problems: string[] = [];
+
+  if (!Array.isArray(candidate.ratings)) {
+    problems.push('"ratings" must be an array of numbers');
+  } else {
+    if (!candidate.ratings.every((r) => typeof r === 'number' && r >= 0 && r <= 100)) {
+      problems.push('every rating must be a number from 0 to 100');
+    }
+    if (ideaCount !== undefined && candidate.ratings.length !== ideaCount) {
+      problems.push(`expected ${ideaCount} ratings, got ${candidate.ratings.length}`);
+    }
+  }
+  if (typeof candidate.feedback !== 'string') problems.push('"feedback" must be a string');
+  if (typeof candidate.overallScore !== 'string' || !SCORES.includes(candidate.overallScore)) {
+    problems.push(`"overallScore" must be one of ${SCORES.join(', ')}`);
+  }
+  return problems;
+};
+
+export const comparisonProblems = (value: unknown, pairCount?: number): string[] => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return ['expected a JSON object'];
+  const { winners } = value as Record<string, unknown>;
+  if (!Array.isArray(winners)) return ['"winners" must be an array'];
+  const problems: string[] = [];
+  if (!winners.every((winner) => winner === 'A' || winner === 'B' || winner === 'tie')) {
+    problems.push('every winner must be "A", "B" or "tie"');
+  }
+  if (pairCount !== undefined && winners.length !== pairCount) {
+    problems.push(`expected ${pairCount} winners, got ${winners.length}`);
+  }
+  return problems;
+};
+
+export const validateCriticResponse = (response: unknown): response is CriticResponse =>
+  criticProblems(response).length === 0;
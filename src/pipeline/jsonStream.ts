@@ -0,0 +1,94 @@
+/**
+ * Incremental parser for a JSON array arriving in chunks. Each call to
+ * `push` returns the top-level elements that became complete with that
+ * chunk, so callers can act on the first idea before the last one is
+ * written. Text before the opening bracket (preamble, code fences) is
+ * ignored, and elements that still fail to parse are skipped rather than
+ * failing the whole array; `failed` counts them so callers can tell.
+ */
+
+export interface JSONArrayStreamParser<T> {
+  push(chunk: string): T[];
+  readonly done: boolean;
+  readonly failed: number;
+}
+
+const parseElement = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Models often leave a trailing comma before a closing brace
+    try {
+      return JSON.parse(text.replace(/,\s*([}\]])/g, '$1'));
+    } catch {
+      return undefined;
+    }
+  }
+};
+
+export const createJSONArrayStreamParser = <T = unknown>(): JSONArrayStreamParser<T> => {
+  let buffer = '';
+  let position = 0;
+  let started = false;
+  let done = false;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let elementStart = -1;
+  let failed = 0;
+
+  return {
+    get done() {
+      return done;
+    },
+    get failed() {
+      return failed;
+    },
+    push(chunk) {
+      const completed: T[] = [];
+      buffer += chunk;
+
+      for (; position < buffer.length && !done; position++) {
+        const ch = buffer[position];
+
+        if (!started) {
+          if (ch === '[') started = true;
+          continue;
+        }
+
+        if (depth === 0) {
+          if (ch === '{' || ch === '[') {
+            elementStart = position;
+            depth = 1;
+          } else if (ch === ']') {
+            done = true;
+          }
+          continue;
+        }
+
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (ch === '\\') escaped = true;
+          else if (ch === '"') inString = false;
+          continue;
+        }
+
+        if (ch === '"') {
+          inString = true;
+        } else if (ch === '{' || ch === '[') {
+          depth++;
+        } else if (ch === '}' || ch === ']') {
+          depth--;
+          if (depth === 0) {
+            const element = parseElement(buffer.slice(elementStart, position + 1));
+            if (element !== undefined) completed.push(element as T);
+            else failed++;
+            elementStart = -1;
+          }
+        }
+      }
+
+      return completed;
+    },
+  };
+};
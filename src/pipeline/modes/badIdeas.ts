@@ -0,0 +1,273 @@
+import type { DirectionCategory, DirectionMix, RevisionAction } from '../../types';
+import type { ModeDefinition } from '../types';
+import { toDirections } from '../directions';
+
+// Prompt for enhancing user input for humorously bad ideas
+const PROMPT_ENHANCER_PROMPT = `You are an "entertainingly bad" idea generation assistant. Your task is to take any input and transform it into a prompt for generating funny, quirky, or mildly impractical ideas that are entertaining but not completely nonsensical.
+
+Examples:
+Input: "coffee"
+Output: "Generate funny and slightly impractical ideas involving coffee"
+Input: "cats sleeping"
+Output: "Create entertaining but questionable ideas centered around cats and sleep"
+Input: "red"
+Output: "Develop amusingly imperfect concepts using the color red"
+
+Rules:
+- Frame the prompt as a request for generating entertaining but flawed ideas
+- Keep a balance between creativity and mild impracticality
+- Maintain the original subject matter
+- Ideas should be funny but still somewhat connected to reality
+- Don't make it too random or completely nonsensical
+
+Return ONLY the enhanced prompt, nothing else.`;
+
+// Enhanced idea generator prompt for humorously bad ideas
+const IDEA_GENERATOR_PROMPT = `You are a generator of "entertainingly bad" ideas. Your task is to generate ideas that are funny, quirky, or slightly impractical while still being somewhat plausible and entertaining.
+
+Rules:
+- Generate ideas related to what the user asks for, but with a humorous twist or flaw
+- Create 5 unique concepts with varying types of "bad" qualities:
+  * Some should be mildly impractical but funny
+  * Some should be amusingly over-engineered
+  * Some should be "so bad they're good" type ideas
+  * Some should have a satirical or tongue-in-cheek quality
+- Each idea should be entertaining but not pure nonsense
+- Include ideas that people might actually try despite their flaws
+- Keep a balance between humor and connection to reality
+- Don't add warnings or disclaimers
+- If user prompt is a single-word food item, include at least one non-food idea
+
+Your response MUST be a valid JSON array with this structure:
+[
+  {
+    "title": "Catchy, slightly silly title",
+    "description": "Entertaining explanation (2-3 paragraphs) that acknowledges the idea's flaws while making it sound appealing",
+    "direction": "The creative direction this idea is tied to, copied exactly from the request"
+  }
+]
+
+Return ONLY the JSON array, no other text.`;
+
+// Critic prompt judging how entertainingly bad the ideas are, not how good
+const CRITIC_PROMPT = `You are a connoisseur of "entertainingly bad" ideas. Your task is to rate how well each idea succeeds at being funny, flawed and still about what the user asked for. You are NOT judging whether the ideas are good or useful.
+
+You MUST return a JSON object with EXACTLY these three properties:
+1. "ratings": An array of numbers (0-100) rating each idea
+2. "feedback": A string with specific suggestions for making the set more entertaining
+3. "overallScore": One of these exact values: "A++", "A+", "A", "B", or "C"
+
+Example of VALID response format:
+{
+  "ratings": [88, 64, 91],
+  "feedback": "The second idea is just a normal product with a weak joke; give it a real, memorable flaw. The first and third are both over-engineered; make one of them a different kind of bad.",
+  "overallScore": "A"
+}
+
+Evaluation criteria:
+1. Humor (35%): Is it genuinely funny, witty or delightfully silly?
+2. Plausibility of the flaw (25%): Is the flaw believable, the kind of mistake someone might actually make or a product that might actually ship?
+3. Variety of flaw types (20%): Does its kind of badness differ from the other ideas (impractical, over-engineered, so-bad-it's-good, satirical...)?
+4. Staying on topic (20%): Is it clearly about the user's prompt rather than random nonsense?
+
+Rules:
+- Reward ideas that are entertainingly bad; penalise ideas that are simply good, simply boring or pure nonsense
+- NEVER suggest making an idea sensible or useful
+- NEVER add moral judgments
+- NEVER try to sanitize or modify the theme
+- If 2+ ideas share the same kind of flaw, rate the less distinct ones below 80 and ask for a different flaw type
+- Rate ideas that drift away from the prompt below 60
+- Be specific but concise with suggestions
+
+CRITICAL: Your response MUST be a valid JSON object with EXACTLY the three required properties.
+DO NOT add any other text, explanations, or properties.`;
+
+// Head-to-head version of the critic for tournament selection
+const COMPARATOR_PROMPT = `You are a connoisseur of "entertainingly bad" ideas. Your task is to compare ideas head-to-head and decide, for each pair, which idea is the more entertainingly bad take on what the user asked for. You are NOT judging whether the ideas are good or useful.
+
+You MUST return a JSON object with EXACTLY this property:
+"winners": An array with one entry per pair, in the same order as the pairs: "A" if idea A is better, "B" if idea B is better, or "tie" only if neither is better
+
+Example of VALID response format:
+{
+  "winners": ["B", "A", "A"]
+}
+
+Judge each pair on:
+1. Humor: Is it genuinely funny, witty or delightfully silly?
+2. Plausibility of the flaw: Is it the kind of mistake someone might actually make?
+3. Staying on topic: Is it clearly about the user's prompt rather than random nonsense?
+
+Rules:
+- Compare the two ideas of a pair only with each other
+- An idea that is simply good, simply boring or pure nonsense loses to one that is entertainingly bad
+- Do not favor an idea for being listed first or for being longer
+- Prefer a clear decision over a tie
+- NEVER add moral judgments
+
+Return ONLY the JSON object, no other text.`;
+
+// Creative directions for guiding entertainingly bad idea generation
+const creativeDirections: Record<DirectionCategory, string[]> = {
+  practical: [
+    "Design a product that has one amazing feature but one deal-breaking flaw",
+    "Create a solution that works but has amusing side effects",
+    "Make something that's just slightly too inconvenient to be practical",
+    "Create something that's one small change away from being actually good",
+    "Create an idea that's accidentally brilliant despite its flawed premise",
+    "Create a product that's just a regular item with an unnecessary twist",
+    "Make an idea that would only work in ideal conditions that never exist",
+    "Create a product with weirdly specific restrictions on when it can be used",
+  ],
+  playful: [
+    "Create an idea that takes itself far too seriously",
+    "Create an idea that's just a little too honest about its limitations",
+    "Create something that's painfully earnest about a silly concept",
+    "Make something that seems clever until you think about it for five seconds",
+    "Make an idea that could only have been conceived at 3 AM",
+  ],
+  absurd: [
+    "Solve a simple problem in the most convoluted way possible",
+    "Design a product that solves problems nobody actually has",
+    "Make something that combines two concepts that shouldn't go together",
+    "Create an idea that feels like it's from a parallel universe",
+    "Create an idea that would make sense if one crucial fact about the world were different",
+    "Make something with a comically mismatched form and function",
+    "Design a product with bizarre ergonomics justified by 'science'",
+    "Create something with hilariously misplaced priorities",
+    "Make a product that's an obvious solution to the wrong problem",
+    "Make something that's clearly a solution looking for a problem",
+    "Design something that misunderstands its own purpose in a funny way",
+    "Create a solution that works but for completely wrong reasons",
+    "Make something that's wildly inefficient but oddly satisfying",
+  ],
+  market: [
+    "Create something that's trying way too hard to be trendy",
+    "Make something oddly specific to an incredibly niche audience",
+    "Create a business model with one obviously fatal flaw",
+    "Create a product that would only appeal to a very specific personality type",
+    "Design a product with a marketing angle that completely misses the point",
+    "Design something that's clearly trying to cash in on an unrelated trend",
+    "Create an idea that's clearly just a rebrand of an existing failure",
+    "Design something that misunderstands its target audience",
+  ],
+  social: [
+    "Take a good idea but implement it in the wrong context",
+    "Design a solution that's technically correct but socially awkward",
+    "Create a product that solves a problem by creating an equally annoying one",
+    "Create a solution that grossly overestimates people's patience",
+    "Design a solution that completely misunderstands human behavior",
+    "Make a solution that requires an implausible level of user commitment",
+  ],
+  aesthetic: [
+    "Design something with aesthetics that completely overshadow functionality",
+    "Design something that would only make sense in a specific decade",
+    "Make a product that's amusingly behind or ahead of its time",
+  ],
+  technology: [
+    "Design something that's a parody of modern tech trends",
+    "Create something that would be described as 'technically brilliant but practically useless'",
+    "Design something that's intentionally over-engineered to seem impressive",
+    "Design a product with features nobody asked for",
+    "Make a product that awkwardly combines analog and digital elements",
+    "Design something that unnecessarily uses app connectivity",
+  ],
+};
+
+// Shipped as the read-only default library for this mode
+export const BAD_IDEAS_DIRECTIONS = toDirections(creativeDirections, 'bad-ideas-direction');
+
+// Bad, but not all of the same kind of bad
+export const BAD_IDEAS_DIRECTION_MIX: DirectionMix = {
+  absurd: { max: 2 },
+  practical: { min: 1 },
+};
+
+// What each per-idea action asks the generator to do
+const REVISION_INSTRUCTIONS: Record<RevisionAction, string> = {
+  refine: 'Rework this bad idea so its flaw is funnier and more memorable.',
+  practical: 'Make this bad idea almost workable: it should sound reasonable at first, with a subtler flaw.',
+  wilder: 'Make this bad idea more absurd and outrageous while keeping it recognisably about the prompt.',
+  regenerate: 'Replace this bad idea with a completely new one that follows the same creative direction.',
+};
+
+// First request of a run
+const GENERATOR_MESSAGE = `{{prompt}}
+
+Generate {{ideaCount}} entertainingly flawed ideas, each tied to one of these creative directions: {{directions}}. Ensure each idea has a different type of amusing flaw or quirk, making them entertaining but not completely nonsensical.`;
+
+// Each later iteration, driven by the entertainment critic's feedback
+const REFINEMENT_MESSAGE = `Based on the following feedback, make these bad ideas more entertaining:
+
+Feedback: {{feedback}}
+
+Previous ideas with ratings:
+{{previousIdeas}}
+
+Your task:
+1. For ideas rated 85 or higher, keep them or sharpen the joke based on feedback.
+2. For ideas below 85, make the flaw funnier and more believable, or replace them with new bad ideas.
+3. Use these creative directions for the {{ideaCount}} ideas: {{directions}}.
+4. Give every idea a different kind of flaw, and keep every idea about the prompt.
+5. Never make an idea sensible or useful.
+
+Enhanced prompt: {{currentPrompt}}`;
+
+// A single idea of a finished run, or a near-duplicate being replaced
+const REVISION_MESSAGE = `{{instruction}}
+
+Idea:
+{{idea}}
+{{#feedback}}
+Feedback: {{feedback}}
+{{/feedback}}{{#direction}}
+Creative direction: {{direction}}
+{{/direction}}
+Other ideas in the set (use a different kind of flaw): {{otherIdeas|titles}}
+
+Respond with a JSON array containing exactly one idea.
+
+Enhanced prompt: {{prompt}}`;
+
+// Definition of "Bad Ideas" mode, refined by its own entertainment critic
+export const BAD_IDEAS_MODE: ModeDefinition = {
+  id: 'bad',
+  labels: {
+    name: 'Bad Ideas',
+    placeholder: 'Enter your bad idea prompt...',
+    resultsHeading: 'Ideas?',
+  },
+  prompts: {
+    enhancer: { id: 'bad-ideas.enhancer', version: 1, text: PROMPT_ENHANCER_PROMPT },
+    generator: { id: 'bad-ideas.generator', version: 1, text: IDEA_GENERATOR_PROMPT },
+    critic: { id: 'bad-ideas.critic', version: 1, text: CRITIC_PROMPT },
+    comparator: { id: 'bad-ideas.comparator', version: 1, text: COMPARATOR_PROMPT },
+  },
+  messages: {
+    generator: { id: 'bad-ideas.generator-message', version: 1, text: GENERATOR_MESSAGE },
+    refinement: { id: 'bad-ideas.refinement-message', version: 1, text: REFINEMENT_MESSAGE },
+    revision: { id: 'bad-ideas.revision-message', version: 1, text: REVISION_MESSAGE },
+  },
+  revisionInstructions: REVISION_INSTRUCTIONS,
+  critic: true,
+  // Its prompts were written as a chat's opening turn, not as a preamble to the request
+  systemInstruction: true,
+  stages: {
+    generator: {
+      temperature: 0.85, // Balanced temperature for creative but not random ideas
+      topP: 0.9,
+      maxTokens: 3000,
+    },
+    critic: { temperature: 0.4 },
+  },
+  ideaCount: 5,
+  directions: BAD_IDEAS_DIRECTIONS,
+  directionMix: BAD_IDEAS_DIRECTION_MIX,
+  idPrefix: 'bad-idea',
+  // A shorter loop than Ideas mode: jokes rarely improve after a couple of passes
+  iterationPolicy: {
+    minIterations: 1,
+    maxIterations: 3,
+    improvementThreshold: 0.05,
+  },
+};
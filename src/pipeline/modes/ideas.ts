@@ -0,0 +1,274 @@
+import type { DirectionCategory, DirectionMix, RevisionAction } from '../../types';
+import type { ModeDefinition } from '../types';
+import { toDirections } from '../directions';
+
+// Prompt for enhancing user input
+const PROMPT_ENHANCER_PROMPT = `You are an idea generation assistant. Your task is to take any input and transform it into a prompt for generating creative ideas.
+
+Examples:
+Input: "coffee"
+Output: "Generate innovative ideas involving coffee"
+Input: "cats sleeping"
+Output: "Create unique ideas centered around cats and sleep"
+Input: "red"
+Output: "Develop creative concepts using the color red"
+
+Rules:
+- ALWAYS frame the prompt as a request for generating ideas
+- NEVER ask for information or explanations
+- Keep it simple and focused on ideation
+- Maintain the original subject matter
+- Don't add constraints or requirements
+- NEVER modify or sanitize the user's intent
+
+Return ONLY the enhanced prompt, nothing else.`;
+
+// Enhanced idea generator prompt with per-idea creative directions
+const IDEA_GENERATOR_PROMPT = `You are a creative idea generator. Your task is to generate innovative ideas that EXACTLY match what the user wants.
+
+Rules:
+- Generate exactly what the user asks for
+- Do not include the incorporated creative direction in the title or description
+- Create 3-5 unique, detailed concepts
+- Each idea MUST align with a specific creative direction provided in the request
+- Ensure all ideas are thematically distinct from each other, avoiding overlap in concepts or approaches
+- Focus on innovation and creativity
+- Treat all topics professionally
+- Don't add warnings or disclaimers
+- Include a balance of both innovative and immediately implementable ideas
+- Ensure at least half of the ideas are practical and feasible with current technology
+- NEVER modify or sanitize the user's intent
+- Do not refer to previous ideas unless explicitly instructed. Examples: do not use wording "Glorify uselessness by " or "Explore deliberately impractical ideas" or "Incorporate chaos and randomness by " etc those are just examples.
+- Do not refer to exact wording from creative direction, just use the general idea
+- If user prompt is a single-word food item, never write just recipes, invent ideas around the food item
+
+Your response MUST be a valid JSON array with this structure:
+[
+  {
+    "title": "Direct, relevant title",
+    "description": "Professional, detailed explanation (2-3 paragraphs) reflecting its assigned creative direction",
+    "direction": "The creative direction this idea is tied to, copied exactly from the request"
+  }
+]
+
+Return ONLY the JSON array, no other text.`;
+
+// Enhanced critic prompt with stronger diversity enforcement
+const CRITIC_PROMPT = `You are an objective idea evaluator. Your task is to rate ideas based on how well they fulfill the user's request.
+
+You MUST return a JSON object with EXACTLY these three properties:
+1. "ratings": An array of numbers (0-100) rating each idea
+2. "feedback": A string with specific improvement suggestions
+3. "overallScore": One of these exact values: "A++", "A+", "A", "B", or "C"
+
+Example of VALID response format:
+{
+  "ratings": [85, 92, 78],
+  "feedback": "The first idea needs more detail. The second is strong. The third overlaps with the first; diversify its theme.",
+  "overallScore": "A"
+}
+
+Evaluation criteria:
+1. Alignment with user's intent (40%): Does it directly address the prompt and stay on theme?
+2. Innovation within context (30%): Is it original and creative within the prompt's scope?
+3. Clarity and accessibility (20%): Is it concise, clear, and understandable to a general audience?
+4. Diversity within set (10%): Does it differ thematically from other ideas?
+
+Rules:
+- Focus ONLY on how well ideas match what the user asked for
+- NEVER suggest changing the user's intent
+- NEVER add moral judgments
+- NEVER try to sanitize or modify the theme
+- Take the role of an expert in the prompt's subject
+- Rate ideas purely on execution quality
+- If an idea is strong (85+), suggest minor refinements
+- DO NOT request unnecessary technical details or jargon
+- Prioritize clarity and readability
+- Be specific but concise with suggestions
+- If 2+ ideas share a similar theme (e.g., all tech-focused), rate the less distinct ones below 85 and demand diverse replacements
+- One idea must score at least 92, but don't force all to change if refining one
+- If all ideas are food-related for a food prompt, ask for one non-food idea
+
+CRITICAL: Your response MUST be a valid JSON object with EXACTLY the three required properties.
+DO NOT add any other text, explanations, or properties.`;
+
+// Creative directions for guiding generation
+const creativeDirections: Record<DirectionCategory, string[]> = {
+  practical: [
+    "Focus on practical and straightforward ideas",
+    "Look for simple, minimalist solutions",
+    "Prioritize sustainability or eco-friendly angles",
+    "Focus on problem-solving or utility",
+    "Focus on speed or efficiency",
+    "Consider health and wellness angles",
+    "Think about modular or customizable solutions",
+    "Enhance everyday convenience or accessibility",
+    "Optimize resource management or efficiency",
+    "Emphasize time-saving or productivity-enhancing ideas",
+    "Consider seasonal or weather-related applications",
+    "Think about portable or travel-friendly designs",
+    "Consider emergency or disaster preparedness angles",
+    "Emphasize durability or longevity in design",
+    "Focus on privacy or security-enhancing features",
+    "Think about preventative or proactive approaches",
+    "Consider DIY or customizable user experiences",
+    "Focus on hybrid or multi-functional concepts",
+    "Think about adapting to changing circumstances or environments",
+    "Emphasize streamlined or frictionless experiences",
+    "Focus on seamless integration with daily routines",
+  ],
+  playful: [
+    "Explore unusual or unexpected perspectives",
+    "Consider playful and light-hearted approaches",
+    "Incorporate elements of surprise or paradox",
+    "Consider humorous or whimsical interpretations",
+    "Think about gamification or interactive elements",
+  ],
+  absurd: [
+    "Prioritize Anti-concept or Unapologetically Useless ",
+    "Focus on Retro-cringe or Absurdist",
+    "Consider Glitch-core angles",
+    "Focus on absurdist or surreal concepts",
+    "Explore deliberately impractical or nonsensical ideas",
+    "Incorporate elements of chaos or randomness",
+    "Consider humorously controversial or taboo themes",
+    "Think about glorifying uselessness or inefficiency",
+    "Emphasize over-the-top or hyperbolic solutions",
+  ],
+  market: [
+    "Explore luxury or high-end market potential",
+    "Think about scalable or mass-market applications",
+    "Explore niche or specialized use cases",
+    "Explore cross-industry applications",
+    "Explore budget-conscious or affordable solutions",
+    "Explore subscription or service-based models",
+    "Think about integrating existing ecosystems or platforms",
+    "Focus on professional or workplace applications",
+    "Consider urban or city-specific solutions",
+    "Consider age-specific or demographic-targeted ideas",
+  ],
+  social: [
+    "Highlight cultural or historical references",
+    "Focus on community or collaborative aspects",
+    "Consider educational or informative angles",
+    "Think about global or international perspectives",
+    "Consider accessibility and inclusivity",
+    "Explore emotional or psychological impacts",
+    "Focus on family-friendly or intergenerational concepts",
+    "Focus on personal growth or self-improvement",
+    "Explore local or community-specific adaptations",
+    "Emphasize social connection or relationship building",
+    "Explore rural or remote-area applications",
+    "Think about love",
+  ],
+  aesthetic: [
+    "Think about elegant and refined concepts",
+    "Draw inspiration from nature or organic forms",
+    "Blend traditional and modern concepts",
+    "Emphasize sensory experiences (visual, tactile, etc.)",
+    "Incorporate artistic or creative expressions",
+  ],
+  technology: [
+    "Emphasize futuristic or sci-fi-inspired themes",
+    "Incorporate technology or digital innovation",
+    "Explore data-driven or analytical approaches",
+  ],
+};
+
+// Shipped as the read-only default library for this mode
+export const IDEAS_DIRECTIONS = toDirections(creativeDirections, 'ideas-direction');
+
+// Keeps at least half of each set practical, with room for one wildcard
+export const IDEAS_DIRECTION_MIX: DirectionMix = {
+  practical: { min: 3 },
+  absurd: { max: 1 },
+};
+
+// Prompt for expanding a single idea into a structured document
+const EXPANDER_PROMPT = `You are a product strategist. Your task is to turn a short idea description into a structured, practical document.
+
+Rules:
+- Stay faithful to the idea; do not replace it with a different one
+- Be specific and concrete: name real audiences, features and numbers where sensible
+- Use only the Markdown sections requested, as "## " headings, in the given order
+- Do not add a title, preamble, closing remarks or code fences
+
+Return ONLY the Markdown document.`;
+
+// What each per-idea action asks the generator to do
+const REVISION_INSTRUCTIONS: Record<RevisionAction, string> = {
+  refine: 'Refine this idea: keep its core concept and address the feedback to make it stronger.',
+  practical: 'Make this idea more practical: keep its core concept but make it realistic to implement with current technology and modest resources.',
+  wilder: 'Make this idea wilder: push it into bolder, more unexpected territory while keeping it relevant to the prompt.',
+  regenerate: 'Replace this idea with a completely new one that follows the same creative direction.',
+};
+
+// First request of a run
+const GENERATOR_MESSAGE = `{{prompt}}
+
+Generate {{ideaCount}} ideas, each tied to one of these creative directions: {{directions}}. Ensure each idea reflects its assigned direction and is thematically distinct from the others to avoid overlap.`;
+
+// Each later iteration, driven by the critic's feedback
+const REFINEMENT_MESSAGE = `Based on the following feedback, refine or replace the existing ideas:
+
+Feedback: {{feedback}}
+
+Previous ideas with ratings:
+{{previousIdeas}}
+
+Your task:
+1. For ideas with ratings 90 or higher, keep them or make minor improvements based on feedback.
+2. For ideas below 90, refine them to reach 90+ by addressing feedback, or replace them with new, distinct ideas if refinement isn't feasible.
+3. Use these creative directions for the {{ideaCount}} ideas: {{directions}}.
+4. Ensure all ideas remain unique, avoiding thematic overlap (e.g., not all tech-focused).
+5. Keep descriptions concise (under 150 words) and clear.
+
+Enhanced prompt: {{currentPrompt}}`;
+
+// A single idea of a finished run, or a near-duplicate being replaced
+const REVISION_MESSAGE = `{{instruction}}
+
+Idea:
+{{idea}}
+
+Feedback: {{feedback}}
+{{#direction}}Creative direction: {{direction}}
+{{/direction}}
+Other ideas in the set (do not overlap with them): {{otherIdeas|titles}}
+
+Keep the description concise (under 150 words) and clear. Respond with a JSON array containing exactly one idea.
+
+Enhanced prompt: {{prompt}}`;
+
+// Definition of the main "Ideas" mode, refined by the critic
+export const IDEAS_MODE: ModeDefinition = {
+  id: 'good',
+  labels: {
+    name: 'Ideas',
+    placeholder: 'Enter your idea prompt...',
+    resultsHeading: 'Final Ideas',
+  },
+  prompts: {
+    enhancer: { id: 'ideas.enhancer', version: 1, text: PROMPT_ENHANCER_PROMPT },
+    generator: { id: 'ideas.generator', version: 1, text: IDEA_GENERATOR_PROMPT },
+    critic: { id: 'ideas.critic', version: 1, text: CRITIC_PROMPT },
+    expander: { id: 'ideas.expander', version: 1, text: EXPANDER_PROMPT },
+  },
+  messages: {
+    generator: { id: 'ideas.generator-message', version: 1, text: GENERATOR_MESSAGE },
+    refinement: { id: 'ideas.refinement-message', version: 1, text: REFINEMENT_MESSAGE },
+    revision: { id: 'ideas.revision-message', version: 1, text: REVISION_MESSAGE },
+  },
+  revisionInstructions: REVISION_INSTRUCTIONS,
+  critic: true,
+  stages: {
+    enhancer: { temperature: 0.7 },
+    generator: { temperature: 0.85 },
+    critic: { temperature: 0.4 },
+    expander: { temperature: 0.6 },
+  },
+  ideaCount: 5,
+  directions: IDEAS_DIRECTIONS,
+  directionMix: IDEAS_DIRECTION_MIX,
+  idPrefix: 'idea',
+};
@@ -0,0 +1,155 @@
+import type { Mode, PromptTemplateRef } from '../../types';
+import type { IterationPolicy, ModeDefinition, PipelineConfig, PipelineStage, StageConfig } from '../types';
+import { compileTemplate, templateProblems, type PromptTemplate, type TemplateSlot } from '../templates';
+import { COMPARATOR_TEMPLATE } from '../tournament';
+import { IDEAS_MODE } from './ideas';
+import { BAD_IDEAS_MODE } from './badIdeas';
+
+type ModeStageSettings = NonNullable<ModeDefinition['stages']>[PipelineStage];
+
+// Mode of sessions saved before modes were recorded
+export const DEFAULT_MODE: Mode = 'good';
+
+/**
+ * Model names for each stage, chosen by the app rather than the mode. The
+ * expander falls back to the generator model.
+ */
+export interface ModeModels {
+  enhancer: string;
+  generator: string;
+  critic: string;
+  expander?: string;
+}
+
+// Refinement loop as described in the README: 2-5 iterations, 5% rule, stop on A++
+export const DEFAULT_ITERATION_POLICY: IterationPolicy = {
+  minIterations: 2,
+  maxIterations: 5,
+  improvementThreshold: 0.05,
+  stopOnTopScore: true,
+  selection: 'best-version',
+};
+
+const modes = new Map<Mode, ModeDefinition>();
+
+// Every template of a mode with the slot it fills
+const modeTemplates = ({ prompts, messages }: ModeDefinition) => {
+  const templates: [TemplateSlot, PromptTemplate | undefined][] = [
+    ['enhancer', prompts.enhancer],
+    ['generator', prompts.generator],
+    ['critic', prompts.critic],
+    ['comparator', prompts.comparator],
+    ['expander', prompts.expander],
+    ['generatorMessage', messages.generator],
+    ['refinementMessage', messages.refinement],
+    ['revisionMessage', messages.revision],
+  ];
+  return templates.filter((entry): entry is [TemplateSlot, PromptTemplate] => !!entry[1]);
+};
+
+/**
+ * The template to use in place of a built-in one: its override when there
+ * is a valid one with a higher version, otherwise the built-in template.
+ * Rejected overrides are reported and skipped so a typo cannot break a mode.
+ */
+const resolveTemplate = (template: PromptTemplate, slot: TemplateSlot, overrides: PromptTemplate[]) => {
+  const override = overrides.find((candidate) => candidate.id === template.id);
+  if (!override) return template;
+  const problems = override.version > template.version
+    ? templateProblems(override, slot)
+    : [`its version must be higher than the built-in version ${template.version}`];
+  if (!problems.length) return override;
+  console.warn(`⚠️ Ignoring the override of template "${template.id}":`, problems.join('; '));
+  return template;
+};
+
+/**
+ * Makes a mode available to the selector, history, exports and imports, in
+ * registration order. The id is stored with every session and library of
+ * the mode, so it must not change once released.
+ */
+export const registerMode = (definition: ModeDefinition) => {
+  if (modes.has(definition.id)) throw new Error(`Mode "${definition.id}" is already registered`);
+  if (definition.critic && !definition.prompts.critic) {
+    throw new Error(`Mode "${definition.id}" enables the critic without a critic prompt`);
+  }
+  for (const [slot, template] of modeTemplates(definition)) {
+    const problems = templateProblems(template, slot);
+    if (problems.length) throw new Error(`Mode "${definition.id}" template "${template.id}": ${problems.join('; ')}`);
+  }
+  modes.set(definition.id, definition);
+};
+
+export const listModes = () => [...modes.values()];
+
+export const getMode = (id: Mode) => modes.get(id);
+
+export const isRegisteredMode = (value: unknown): value is Mode =>
+  typeof value === 'string' && modes.has(value);
+
+// Sessions of a mode that is no longer registered show its raw id
+export const modeLabel = (id: Mode = DEFAULT_MODE) => modes.get(id)?.labels.name ?? id;
+
+/**
+ * Builds the pipeline for one mode. `policy` adjusts the default loop; a
+ * mode's own loop settings take precedence over both. `overrides` replace
+ * the mode's templates of the same id.
+ */
+export const createModePipeline = (
+  definition: ModeDefinition,
+  models: ModeModels,
+  policy: Partial<IterationPolicy> = {},
+  overrides: PromptTemplate[] = []
+): PipelineConfig => {
+  const { prompts, messages, revisionInstructions, stages = {} } = definition;
+  const used: PromptTemplateRef[] = [];
+  const compile = <S extends TemplateSlot>(template: PromptTemplate, slot: S) => {
+    const resolved = resolveTemplate(template, slot, overrides);
+    used.push({ id: resolved.id, version: resolved.version });
+    return compileTemplate(resolved, slot);
+  };
+  const stage = (
+    settings: ModeStageSettings | undefined,
+    model: string,
+    template: PromptTemplate,
+    slot: TemplateSlot
+  ): StageConfig => ({
+    ...settings,
+    model,
+    instruction: compile(template, slot)({}),
+    ...(definition.systemInstruction && { systemInstruction: true }),
+  });
+
+  const generatorMessage = compile(messages.generator, 'generatorMessage');
+  const refinementMessage = compile(messages.refinement, 'refinementMessage');
+  const revisionMessage = compile(messages.revision, 'revisionMessage');
+
+  return {
+    mode: definition.id,
+    enhancer: stage(stages.enhancer, models.enhancer, prompts.enhancer, 'enhancer'),
+    generator: stage(stages.generator, models.generator, prompts.generator, 'generator'),
+    ...(definition.critic && prompts.critic && {
+      critic: stage(stages.critic, models.critic, prompts.critic, 'critic'),
+      comparator: stage(stages.critic, models.critic, prompts.comparator ?? COMPARATOR_TEMPLATE, 'comparator'),
+    }),
+    ...(prompts.expander && {
+      expander: stage(stages.expander, models.expander || models.generator, prompts.expander, 'expander'),
+    }),
+    directions: definition.directions,
+    directionCount: definition.ideaCount,
+    directionMix: definition.directionMix,
+    idPrefix: definition.idPrefix,
+    iterationPolicy: { ...DEFAULT_ITERATION_POLICY, ...policy, ...definition.iterationPolicy },
+    maxParseRetries: 2,
+    templates: used,
+    buildGeneratorMessage: (enhancedPrompt, directions) =>
+      generatorMessage({ prompt: enhancedPrompt, directions, ideaCount: directions.length }),
+    buildRefinementMessage: ({ enhancedPrompt, currentPrompt, feedback, previousIdeas, directions }) =>
+      refinementMessage({ prompt: enhancedPrompt, currentPrompt, feedback, previousIdeas, directions, ideaCount: directions.length }),
+    buildRevisionMessage: ({ action, enhancedPrompt, idea, feedback, direction, otherIdeas }) =>
+      revisionMessage({ instruction: revisionInstructions[action], prompt: enhancedPrompt, idea, feedback, direction, otherIdeas }),
+  };
+};
+
+registerMode(IDEAS_MODE);
+registerMode(BAD_IDEAS_MODE);
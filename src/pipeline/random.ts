@@ -0,0 +1,33 @@
+/**
+ * Seedable randomness for a run, so a run's choices can be replayed from its
+ * seed. Seeds are unsigned 32-bit integers.
+ */
+
+export type Random = () => number;
+
+export const MAX_SEED = 2 ** 32 - 1;
+
+export const randomSeed = () => Math.floor(Math.random() * (MAX_SEED + 1));
+
+// mulberry32: small, fast and well distributed for anything short of cryptography
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Short base-36 token, e.g. for ids that must be reproducible from the seed
+export const randomToken = (random: Random, length = 8) =>
+  Array.from({ length }, () => Math.floor(random() * 36).toString(36)).join('');
+
+// A seed as typed by the user; null unless it is a whole number in range
+export const parseSeed = (text: string): number | null => {
+  if (!/^\d+$/.test(text.trim())) return null;
+  const seed = Number(text.trim());
+  return seed <= MAX_SEED ? seed : null;
+};
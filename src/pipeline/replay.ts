@@ -0,0 +1,50 @@
+import type { GenerationSettings, StageSettings } from '../types';
+import type { PipelineConfig, StageConfig } from './types';
+
+const STAGES = ['enhancer', 'generator', 'critic', 'expander'] as const;
+
+// Unset values are left out so applying the settings never clears a default
+const toSettings = ({ model, provider, temperature, topP, maxTokens }: StageConfig): StageSettings => ({
+  model,
+  ...(provider !== undefined && { provider }),
+  ...(temperature !== undefined && { temperature }),
+  ...(topP !== undefined && { topP }),
+  ...(maxTokens !== undefined && { maxTokens }),
+});
+
+// The parts of a config that shape a run's output, minus the prompts themselves
+export const captureSettings = (config: PipelineConfig): GenerationSettings => ({
+  stages: Object.fromEntries(STAGES.flatMap((stage) => {
+    const stageConfig = config[stage];
+    return stageConfig ? [[stage, toSettings(stageConfig)]] : [];
+  })),
+  iterationPolicy: { ...config.iterationPolicy },
+  directionCount: config.directionCount,
+  ...(config.criticEnsemble && { criticEnsemble: config.criticEnsemble }),
+  ...(config.duplicateThreshold !== undefined && { duplicateThreshold: config.duplicateThreshold }),
+});
+
+/**
+ * Config with recorded settings applied over it. Stages the config does not
+ * have are left out, since there is no instruction to run them with. The
+ * comparator follows the recorded critic settings it was derived from. The
+ * critic ensemble is taken as recorded, so a run scored by a single critic
+ * replays with one.
+ */
+export const applySettings = (config: PipelineConfig, settings: GenerationSettings): PipelineConfig => {
+  const stage = <S extends StageConfig | undefined>(current: S, recorded?: StageSettings): S =>
+    (current && recorded ? { ...current, ...recorded } : current);
+
+  return {
+    ...config,
+    enhancer: stage(config.enhancer, settings.stages.enhancer),
+    generator: stage(config.generator, settings.stages.generator),
+    critic: stage(config.critic, settings.stages.critic),
+    comparator: stage(config.comparator, settings.stages.critic),
+    expander: stage(config.expander, settings.stages.expander),
+    iterationPolicy: { ...config.iterationPolicy, ...settings.iterationPolicy },
+    directionCount: settings.directionCount,
+    criticEnsemble: settings.criticEnsemble,
+    duplicateThreshold: settings.duplicateThreshold ?? config.duplicateThreshold,
+  };
+};
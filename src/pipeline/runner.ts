@@ -0,0 +1,213 @@
+import type { ParseRecord, TokenUsage } from '../types';
+import { comparisonProblems, criticProblems, ideaProblems, isGeneratedIdea, repairAndParseJSON } from './json';
+import { createJSONArrayStreamParser } from './jsonStream';
+import { COMPARISON_SCHEMA, CRITIC_SCHEMA, IDEA_LIST_SCHEMA, type JSONSchema } from './schemas';
+import type {
+  ComparisonResponse,
+  CriticResponse,
+  GeneratedIdea,
+  LLMRequest,
+  LLMResponse,
+  PipelineOptions,
+  PipelineStage,
+  StageConfig,
+} from './types';
+
+/**
+ * Stage-level building blocks shared by every pipeline operation: raw model
+ * calls with usage accounting, and structured calls that repair malformed
+ * JSON and re-ask the model (bounded by maxParseRetries) when the output
+ * still fails validation.
+ */
+
+// Lets a streaming caller supply the parsed value instead of the repair layer
+interface StreamingParse {
+  onText: (text: string) => void;
+  value: () => unknown;
+}
+
+export interface StructuredResult<T> {
+  raw: string;
+  value: T;
+}
+
+export interface StageRunner {
+  usage: TokenUsage;
+  parseLog: ParseRecord[];
+  call: (
+    stage: PipelineStage,
+    stageConfig: StageConfig,
+    message: string,
+    iteration: number,
+    onText?: (text: string) => void,
+    responseSchema?: JSONSchema
+  ) => Promise<string>;
+  generateIdeas: (
+    generator: StageConfig,
+    message: string,
+    iteration: number,
+    options?: { count?: number; stream?: boolean }
+  ) => Promise<StructuredResult<GeneratedIdea[]>>;
+  critique: (
+    critic: StageConfig,
+    payload: { ideas: unknown[] } & Record<string, unknown>,
+    iteration: number
+  ) => Promise<StructuredResult<CriticResponse>>;
+  compare: (
+    comparator: StageConfig,
+    payload: { pairs: unknown[] } & Record<string, unknown>,
+    iteration: number
+  ) => Promise<StructuredResult<ComparisonResponse>>;
+}
+
+const buildReaskMessage = (message: string, raw: string, error: string) => `${message}
+
+Your previous response could not be used: ${error}
+
+Previous response:
+${raw.slice(0, 2000)}
+
+Respond again with ONLY the corrected JSON, no other text.`;
+
+export const createStageRunner = (
+  { client, onEvent, signal }: PipelineOptions,
+  maxParseRetries: number
+): StageRunner => {
+  const usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  const parseLog: ParseRecord[] = [];
+
+  const record = (entry: ParseRecord) => {
+    parseLog.push(entry);
+    onEvent?.({ type: 'parse', record: entry });
+  };
+
+  const call: StageRunner['call'] = async (stage, stageConfig, message, iteration, onText, responseSchema) => {
+    signal?.throwIfAborted();
+    onEvent?.({ type: 'stage', stage, iteration });
+    const request: LLMRequest = {
+      stage,
+      provider: stageConfig.provider,
+      instruction: stageConfig.instruction,
+      systemInstruction: stageConfig.systemInstruction,
+      message,
+      model: stageConfig.model,
+      temperature: stageConfig.temperature,
+      topP: stageConfig.topP,
+      maxTokens: stageConfig.maxTokens,
+      responseSchema,
+      signal,
+    };
+
+    let response: LLMResponse;
+    if (onText && client.stream) {
+      response = { text: '', model: stageConfig.model, provider: stageConfig.provider || '' };
+      for await (const chunk of client.stream(request)) {
+        signal?.throwIfAborted();
+        response.text += chunk.text;
+        if (chunk.provider) response.provider = chunk.provider;
+        if (chunk.usage) response.usage = chunk.usage;
+        if (chunk.text) onText(chunk.text);
+      }
+    } else {
+      response = await client.generate(request);
+    }
+    // Backends that ignore the signal must not let a cancelled run continue
+    signal?.throwIfAborted();
+
+    if (response.usage) {
+      usage.promptTokens += response.usage.promptTokens;
+      usage.completionTokens += response.usage.completionTokens;
+      usage.totalTokens += response.usage.totalTokens;
+    }
+    onEvent?.({ type: 'response', stage, iteration, response });
+    return response.text;
+  };
+
+  const structured = async <T>(
+    stage: PipelineStage,
+    stageConfig: StageConfig,
+    message: string,
+    iteration: number,
+    schema: JSONSchema,
+    validate: (value: unknown) => string[],
+    streaming?: () => StreamingParse
+  ): Promise<StructuredResult<T>> => {
+    let attemptMessage = message;
+    let error = '';
+
+    for (let attempt = 1; attempt <= maxParseRetries + 1; attempt++) {
+      const stream = streaming?.();
+      const raw = await call(stage, stageConfig, attemptMessage, iteration, stream?.onText, schema);
+
+      try {
+        const streamed = stream?.value();
+        const { value, repairs } = streamed !== undefined
+          ? { value: streamed, repairs: [] }
+          : repairAndParseJSON(raw);
+        const problems = validate(value);
+        if (!problems.length) {
+          if (repairs.length) record({ stage, iteration, attempt, outcome: 'repaired', repairs });
+          return { raw, value: value as T };
+        }
+        error = problems.join('; ');
+      } catch (parseError) {
+        error = parseError instanceof Error ? parseError.message : String(parseError);
+      }
+
+      const exhausted = attempt > maxParseRetries;
+      record({ stage, iteration, attempt, outcome: exhausted ? 'failed' : 'retried', error });
+      attemptMessage = buildReaskMessage(message, raw, error);
+    }
+
+    throw new Error(`The ${stage} returned unusable output after ${maxParseRetries + 1} attempts: ${error}`);
+  };
+
+  // Streams the generator output, emitting each idea as soon as its JSON
+  // object is complete. The repair layer takes over if the stream did not
+  // yield a complete, well-formed array. A list of other than `count` ideas
+  // is re-asked. With `stream: false` no idea events are emitted, e.g. for a
+  // single idea that replaces one already shown.
+  const generateIdeas: StageRunner['generateIdeas'] = (generator, message, iteration, { count, stream = true } = {}) =>
+    structured<GeneratedIdea[]>('generator', generator, message, iteration, IDEA_LIST_SCHEMA, (value) => ideaProblems(value, count), stream ? () => {
+      const parser = createJSONArrayStreamParser();
+      const streamed: GeneratedIdea[] = [];
+      let malformed = false;
+      return {
+        onText: (text) => {
+          for (const value of parser.push(text)) {
+            if (!isGeneratedIdea(value)) {
+              malformed = true;
+              continue;
+            }
+            onEvent?.({ type: 'idea', iteration, index: streamed.length, idea: value });
+            streamed.push(value);
+          }
+        },
+        // A malformed element leaves the whole response to validation, so it is re-asked rather than dropped
+        value: () => (parser.done && streamed.length && !malformed && !parser.failed ? streamed : undefined),
+      };
+    } : undefined);
+
+  const critique: StageRunner['critique'] = (critic, payload, iteration) =>
+    structured<CriticResponse>(
+      'critic',
+      critic,
+      JSON.stringify(payload),
+      iteration,
+      CRITIC_SCHEMA,
+      (value) => criticProblems(value, payload.ideas.length)
+    );
+
+  // The comparator is the critic asked a different question, so it shares its stage
+  const compare: StageRunner['compare'] = (comparator, payload, iteration) =>
+    structured<ComparisonResponse>(
+      'critic',
+      comparator,
+      JSON.stringify(payload),
+      iteration,
+      COMPARISON_SCHEMA,
+      (value) => comparisonProblems(value, payload.pairs.length)
+    );
+
+  return { usage, parseLog, call, generateIdeas, critique, compare };
+};
@@ -0,0 +1,68 @@
+import { SCORES } from './json';
+import type { ComparisonResponse, CriticResponse, GeneratedIdea } from './types';
+
+/**
+ * Response schemas for backends with native structured output (Gemini's
+ * responseSchema). The subset below is what Gemini accepts; property maps
+ * are keyed by the TypeScript types so the schemas cannot drift from them.
+ * Responses are still checked by ideaProblems / criticProblems /
+ * comparisonProblems, which also
+ * enforce what the schema cannot express (rating range, idea count).
+ */
+
+export type JSONSchema =
+  | { type: 'string'; description?: string; format?: 'enum'; enum?: string[] }
+  | { type: 'number' | 'integer' | 'boolean'; description?: string }
+  | { type: 'array'; description?: string; items: JSONSchema }
+  | {
+      type: 'object';
+      description?: string;
+      properties: Record<string, JSONSchema>;
+      required?: string[];
+    };
+
+const ideaProperties: Record<keyof GeneratedIdea, JSONSchema> = {
+  title: { type: 'string', description: 'Direct, relevant title' },
+  description: { type: 'string', description: 'Detailed explanation of the idea' },
+  direction: { type: 'string', description: 'The creative direction this idea is tied to, copied exactly from the request' },
+};
+
+export const IDEA_LIST_SCHEMA: JSONSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: ideaProperties,
+    // The engine falls back to the requested order when a direction is missing
+    required: ['title', 'description'],
+  },
+};
+
+const criticProperties: Record<keyof CriticResponse, JSONSchema> = {
+  ratings: {
+    type: 'array',
+    description: 'One rating from 0 to 100 per idea, in the same order as the ideas',
+    items: { type: 'number' },
+  },
+  feedback: { type: 'string', description: 'Specific improvement suggestions' },
+  overallScore: { type: 'string', format: 'enum', enum: SCORES },
+};
+
+export const CRITIC_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: criticProperties,
+  required: Object.keys(criticProperties),
+};
+
+const comparisonProperties: Record<keyof ComparisonResponse, JSONSchema> = {
+  winners: {
+    type: 'array',
+    description: 'The better idea of each pair ("A", "B" or "tie"), in the same order as the pairs',
+    items: { type: 'string', format: 'enum', enum: ['A', 'B', 'tie'] },
+  },
+};
+
+export const COMPARISON_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: comparisonProperties,
+  required: Object.keys(comparisonProperties),
+};
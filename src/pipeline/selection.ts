@@ -0,0 +1,43 @@
+import type { Idea, IterationData, IterationPolicy } from '../types';
+
+/**
+ * Best-of-run selection. Iterations are ranked by overall score
+ * (A++ = 5 … C = 1) with the average rating as tiebreak; ideas are matched
+ * across iterations by position, since each refinement pass keeps one idea
+ * per creative direction in the same order.
+ */
+
+export const SELECTION_POLICIES: IterationPolicy['selection'][] = ['best-version', 'best-iteration', 'tournament'];
+
+const SCORE_RANK: Record<string, number> = {
+  'A++': 5,
+  'A+': 4,
+  'A': 3,
+  'B': 2,
+  'C': 1,
+};
+
+export const scoreRank = (score: string) => SCORE_RANK[score] ?? 0;
+
+export const averageRating = (ratings: number[]) =>
+  ratings.length ? ratings.reduce((a, b) => a + b, 0) / ratings.length : 0;
+
+// Positive when a is better than b
+export const compareIterations = (a: IterationData, b: IterationData) =>
+  scoreRank(a.score) - scoreRank(b.score) || averageRating(a.ratings) - averageRating(b.ratings);
+
+// Index of the best iteration; earlier iterations win exact ties
+export const pickBestIteration = (history: IterationData[]) =>
+  history.reduce((best, iteration, index) =>
+    compareIterations(iteration, history[best]) > 0 ? index : best, 0);
+
+// Highest-rated version of each idea slot across all iterations
+export const pickBestVersions = (history: IterationData[]): Idea[] => {
+  const slots = Math.max(0, ...history.map((iteration) => iteration.ideas.length));
+  return Array.from({ length: slots }, (_, slot) =>
+    history
+      .map((iteration) => iteration.ideas[slot])
+      .filter((idea): idea is Idea => !!idea)
+      .reduce((best, idea) => (idea.rating > best.rating ? idea : best))
+  );
+};
@@ -0,0 +1,138 @@
+import type { DuplicateFlag, Idea } from '../types';
+import { createRandom } from './random';
+import type { GeneratedIdea } from './types';
+
+/**
+ * Local near-duplicate detection. An idea's title and description are
+ * normalised into word and word-pair shingles, and ideas are compared by the
+ * Jaccard similarity of their shingle sets, estimated from MinHash
+ * signatures so saved history can be checked without pairwise set work.
+ */
+
+// Estimated Jaccard similarity from which two ideas count as near-duplicates
+export const DUPLICATE_THRESHOLD = 0.5;
+
+const SIGNATURE_SIZE = 64;
+
+// Fixed, so signatures stay comparable across runs and sessions
+const SIGNATURE_SEEDS = (() => {
+  const random = createRandom(0x5eed);
+  return Array.from({ length: SIGNATURE_SIZE }, () => Math.floor(random() * 2 ** 32) >>> 0);
+})();
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'for', 'from', 'has', 'have', 'in', 'into',
+  'is', 'it', 'its', 'of', 'on', 'or', 'so', 'that', 'the', 'their', 'them', 'they', 'this', 'to', 'was',
+  'while', 'will', 'with', 'you', 'your',
+]);
+
+// Lowercased words without accents, punctuation, stop words or a plural "s"
+const normalizeWords = (text: string) =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word && !STOP_WORDS.has(word))
+    .map((word) => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+
+export const shingles = (text: string): Set<string> => {
+  const words = normalizeWords(text);
+  return new Set([...words, ...words.slice(1).map((word, index) => `${words[index]} ${word}`)]);
+};
+
+// FNV-1a followed by murmur3's finaliser, so each seed acts as an independent hash
+const hash = (text: string, seed: number) => {
+  let h = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+};
+
+export const minHash = (features: Set<string>): number[] =>
+  SIGNATURE_SEEDS.map((seed) => {
+    let min = 2 ** 32;
+    for (const feature of features) min = Math.min(min, hash(feature, seed));
+    return min;
+  });
+
+// Ideas are immutable once rated, so saved history is only hashed once per session
+const signatures = new WeakMap<object, number[]>();
+
+export const ideaSignature = (idea: GeneratedIdea): number[] => {
+  let signature = signatures.get(idea);
+  if (!signature) {
+    signature = minHash(shingles(`${idea.title}\n${idea.description}`));
+    signatures.set(idea, signature);
+  }
+  return signature;
+};
+
+// Share of matching signature positions, an estimate of the Jaccard similarity
+export const estimateSimilarity = (a: number[], b: number[]) =>
+  a.filter((value, index) => value === b[index]).length / SIGNATURE_SIZE;
+
+// 100 when no two ideas share anything, 0 when they are all the same idea
+export const diversityScore = (ideas: GeneratedIdea[]) => {
+  const pairs: number[] = [];
+  ideas.forEach((idea, i) => {
+    for (const other of ideas.slice(i + 1)) pairs.push(estimateSimilarity(ideaSignature(idea), ideaSignature(other)));
+  });
+  const mean = pairs.length ? pairs.reduce((a, b) => a + b, 0) / pairs.length : 0;
+  return Math.round(100 * (1 - mean));
+};
+
+/**
+ * An idea new ideas are checked against. Earlier iterations are expected to
+ * be refined in place, so an idea is never a duplicate of the version it
+ * replaced (same `slot`).
+ */
+export interface SimilarityReference {
+  idea: Idea;
+  source: 'iteration' | 'history';
+  iteration?: number;
+  slot?: number;
+  conversationId?: string;
+}
+
+/**
+ * Flags each idea that is a near-duplicate of an earlier idea in the same
+ * set or of a reference, naming its closest match. Flags start out as not
+ * replaced.
+ */
+export const findDuplicates = (
+  ideas: GeneratedIdea[],
+  references: SimilarityReference[],
+  threshold: number
+): DuplicateFlag[] =>
+  ideas.flatMap((idea, index) => {
+    const signature = ideaSignature(idea);
+    const candidates = [
+      ...ideas.slice(0, index).map((other) => ({ title: other.title, source: 'set' as const, other })),
+      ...references
+        .filter((reference) => reference.source !== 'iteration' || reference.slot !== index)
+        .map(({ idea: other, source, iteration, conversationId }) => ({
+          title: other.title,
+          source,
+          ...(iteration !== undefined && { iteration }),
+          ...(conversationId && { conversationId }),
+          other,
+        })),
+    ];
+
+    let best: DuplicateFlag | undefined;
+    for (const { other, ...similarTo } of candidates) {
+      const similarity = estimateSimilarity(signature, ideaSignature(other));
+      if (similarity >= threshold && similarity > (best?.similarity ?? 0)) {
+        best = { index, title: idea.title, similarTo, similarity, replaced: false };
+      }
+    }
+    return best ? [best] : [];
+  });
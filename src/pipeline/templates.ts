@@ -0,0 +1,206 @@
+import type { PromptTemplateRef } from '../types';
+import type { GeneratedIdea } from './types';
+
+/**
+ * Prompt templates: named, versioned prompt texts with typed variables.
+ * Each template fills a slot (a stage instruction or one of the generator
+ * messages), and the slot decides which variables it may use:
+ *
+ *   {{name}}              the variable, formatted for its type
+ *   {{name|json}}         the variable as JSON; text becomes a quoted, escaped string
+ *   {{name|titles}}       a list of ideas as their titles
+ *   {{#name}}…{{/name}}   the enclosed text, only when the variable is not empty
+ *   \{{                   a literal "{{"
+ *
+ * Values are inserted as they are and never scanned for placeholders, so a
+ * prompt or idea containing "{{" cannot inject template syntax.
+ */
+
+export interface PromptTemplate extends PromptTemplateRef {
+  text: string;
+}
+
+export interface TemplateVariables {
+  // The enhanced prompt
+  prompt: string;
+  // The enhanced prompt plus the previous iteration's feedback
+  currentPrompt: string;
+  directions: string[];
+  ideaCount: number;
+  feedback: string;
+  previousIdeas: GeneratedIdea[];
+  idea: GeneratedIdea;
+  otherIdeas: GeneratedIdea[];
+  direction?: string;
+  // What a revision asks for, from the mode's revision instructions
+  instruction: string;
+}
+
+type VariableName = keyof TemplateVariables;
+
+type VariableType = 'text' | 'number' | 'list' | 'ideas' | 'idea';
+
+const VARIABLE_TYPES: Record<VariableName, VariableType> = {
+  prompt: 'text',
+  currentPrompt: 'text',
+  directions: 'list',
+  ideaCount: 'number',
+  feedback: 'text',
+  previousIdeas: 'ideas',
+  idea: 'idea',
+  otherIdeas: 'ideas',
+  direction: 'text',
+  instruction: 'text',
+};
+
+/**
+ * Variables available to each slot. Stage instructions are static; only the
+ * generator messages are rendered per run.
+ */
+export interface SlotVariables {
+  enhancer: Record<never, never>;
+  generator: Record<never, never>;
+  critic: Record<never, never>;
+  comparator: Record<never, never>;
+  expander: Record<never, never>;
+  generatorMessage: Pick<TemplateVariables, 'prompt' | 'directions' | 'ideaCount'>;
+  refinementMessage: Pick<TemplateVariables, 'prompt' | 'currentPrompt' | 'feedback' | 'previousIdeas' | 'directions' | 'ideaCount'>;
+  revisionMessage: Pick<TemplateVariables, 'instruction' | 'prompt' | 'idea' | 'feedback' | 'direction' | 'otherIdeas'>;
+}
+
+export type TemplateSlot = keyof SlotVariables;
+
+const SLOT_VARIABLES: { [S in TemplateSlot]: (keyof SlotVariables[S])[] } = {
+  enhancer: [],
+  generator: [],
+  critic: [],
+  comparator: [],
+  expander: [],
+  generatorMessage: ['prompt', 'directions', 'ideaCount'],
+  refinementMessage: ['prompt', 'currentPrompt', 'feedback', 'previousIdeas', 'directions', 'ideaCount'],
+  revisionMessage: ['instruction', 'prompt', 'idea', 'feedback', 'direction', 'otherIdeas'],
+};
+
+const titlesOf = (value: unknown) => (value as GeneratedIdea[]).map((idea) => idea.title).join('; ');
+
+const FILTERS: Record<string, { types: VariableType[]; format: (value: unknown) => string }> = {
+  json: { types: ['text', 'number', 'list', 'ideas', 'idea'], format: (value) => JSON.stringify(value, null, 2) },
+  titles: { types: ['ideas'], format: titlesOf },
+};
+
+const format = (value: unknown, type: VariableType): string => {
+  switch (type) {
+    case 'list':
+      return (value as string[]).join('; ');
+    case 'ideas':
+      return JSON.stringify(value, null, 2);
+    case 'idea': {
+      const { title, description } = value as GeneratedIdea;
+      return JSON.stringify({ title, description }, null, 2);
+    }
+    default:
+      return String(value);
+  }
+};
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || (typeof value === 'string' && !value.trim()) || (Array.isArray(value) && !value.length);
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'variable'; name: VariableName; filter?: string }
+  | { kind: 'section'; name: VariableName; children: TemplateNode[] };
+
+const TOKEN = /\\\{\{|\{\{\s*([#/]?)\s*([A-Za-z]+)\s*(?:\|\s*([A-Za-z]+)\s*)?\}\}/g;
+
+// Parses a template for a slot, collecting every problem instead of stopping at the first
+const parse = (text: string, slot: TemplateSlot): { nodes: TemplateNode[]; problems: string[] } => {
+  const allowed: string[] = SLOT_VARIABLES[slot];
+  const problems: string[] = [];
+  const root: TemplateNode[] = [];
+  const stack: { name: string; children: TemplateNode[] }[] = [];
+  const current = () => stack[stack.length - 1]?.children ?? root;
+  let last = 0;
+
+  for (const match of text.matchAll(TOKEN)) {
+    const index = match.index ?? 0;
+    if (index > last) current().push({ kind: 'text', text: text.slice(last, index) });
+    last = index + match[0].length;
+
+    const [token, marker, name, filter] = match;
+    if (token === '\\{{') {
+      current().push({ kind: 'text', text: '{{' });
+      continue;
+    }
+    if (!allowed.includes(name)) {
+      problems.push(allowed.length
+        ? `"${name}" is not a variable of the ${slot} template (use ${allowed.join(', ')})`
+        : `the ${slot} template takes no variables, found "${name}"`);
+      continue;
+    }
+    const variable = name as VariableName;
+    if (marker === '#') {
+      const children: TemplateNode[] = [];
+      current().push({ kind: 'section', name: variable, children });
+      stack.push({ name, children });
+    } else if (marker === '/') {
+      if (stack[stack.length - 1]?.name === name) stack.pop();
+      else problems.push(`"{{/${name}}}" does not close an open section`);
+    } else if (filter && !FILTERS[filter]?.types.includes(VARIABLE_TYPES[variable])) {
+      problems.push(`"${filter}" cannot be applied to "${name}"`);
+    } else {
+      current().push({ kind: 'variable', name: variable, ...(filter && { filter }) });
+    }
+  }
+  if (last < text.length) current().push({ kind: 'text', text: text.slice(last) });
+  for (const open of stack) problems.push(`section "{{#${open.name}}}" is never closed`);
+
+  return { nodes: root, problems };
+};
+
+const render = (nodes: TemplateNode[], variables: Partial<TemplateVariables>): string =>
+  nodes.map((node) => {
+    if (node.kind === 'text') return node.text;
+    const value = variables[node.name];
+    if (node.kind === 'section') return isEmpty(value) ? '' : render(node.children, variables);
+    if (value === undefined) return '';
+    return node.filter ? FILTERS[node.filter].format(value) : format(value, VARIABLE_TYPES[node.name]);
+  }).join('');
+
+// Problems that would stop the template from filling the slot; empty when it can
+export const templateProblems = (template: PromptTemplate, slot: TemplateSlot) => parse(template.text, slot).problems;
+
+/**
+ * Parses a template once and returns its renderer. Throws when the template
+ * uses variables or syntax the slot does not allow.
+ */
+export const compileTemplate = <S extends TemplateSlot>(template: PromptTemplate, slot: S) => {
+  const { nodes, problems } = parse(template.text, slot);
+  if (problems.length) throw new Error(`Template "${template.id}" v${template.version}: ${problems.join('; ')}`);
+  return (variables: SlotVariables[S]) => render(nodes, variables);
+};
+
+/**
+ * Reads template overrides from a JSON array such as
+ * `[{ "id": "ideas.critic", "version": 2, "text": "…" }]`. Whether each one
+ * fits the slot of the template it replaces is checked when it is applied.
+ */
+export const parseTemplateOverrides = (text: string): PromptTemplate[] => {
+  const data: unknown = JSON.parse(text);
+  if (!Array.isArray(data)) throw new Error('Templates must be a JSON array');
+
+  const ids = new Set<string>();
+  return data.map((value, index) => {
+    const label = `Template ${index + 1}`;
+    if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error(`${label} is not an object`);
+    const { id, version, text: body } = value as Record<string, unknown>;
+    if (typeof id !== 'string' || !id.trim()) throw new Error(`${label} needs a string "id"`);
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+      throw new Error(`${label} needs a whole-number "version" of at least 1`);
+    }
+    if (typeof body !== 'string' || !body.trim()) throw new Error(`${label} needs a non-empty "text"`);
+    if (ids.has(id)) throw new Error(`${label} repeats the id "${id}"`);
+    ids.add(id);
+    return { id, version, text: body };
+  });
+};
@@ -0,0 +1,208 @@
+import type { Idea, IterationData, TournamentMatch, TournamentResult, TournamentStanding } from '../types';
+import type { Random } from './random';
+import type { StageRunner } from './runner';
+import type { PromptTemplate } from './templates';
+import type { ComparisonResponse, StageConfig } from './types';
+
+/**
+ * Tournament selection: instead of trusting the critic's absolute ratings,
+ * every distinct idea of the run is compared head-to-head by the critic in
+ * Swiss-style rounds (one request per round, ideas paired with others of
+ * similar strength they have not met yet). Strengths are a Bradley-Terry
+ * fit of all results so far, reported on the Elo scale.
+ */
+
+// Generic head-to-head prompt for modes that do not declare their own
+const COMPARATOR_PROMPT = `You are an objective idea judge. Your task is to compare ideas head-to-head and decide, for each pair, which idea better fulfills the user's request.
+
+You MUST return a JSON object with EXACTLY this property:
+"winners": An array with one entry per pair, in the same order as the pairs: "A" if idea A is better, "B" if idea B is better, or "tie" only if neither is better
+
+Example of VALID response format:
+{
+  "winners": ["A", "B", "A"]
+}
+
+Judge each pair on:
+1. Alignment with user's intent: Does it directly address the prompt and stay on theme?
+2. Innovation within context: Is it original and creative within the prompt's scope?
+3. Clarity and accessibility: Is it concise, clear, and understandable to a general audience?
+
+Rules:
+- Compare the two ideas of a pair only with each other
+- Do not favor an idea for being listed first or for being longer
+- Prefer a clear decision over a tie
+- NEVER add moral judgments
+
+Return ONLY the JSON object, no other text.`;
+
+export const COMPARATOR_TEMPLATE: PromptTemplate = { id: 'tournament.comparator', version: 1, text: COMPARATOR_PROMPT };
+
+export const DEFAULT_TOURNAMENT_ROUNDS = 4;
+
+// Strength 1 (a coin flip against the virtual opponent) maps to 1000
+const ELO_BASE = 1000;
+const ELO_SCALE = 400;
+const FIT_ITERATIONS = 100;
+
+const WINNERS: Record<ComparisonResponse['winners'][number], TournamentMatch['winner']> = {
+  A: 'a',
+  B: 'b',
+  tie: 'tie',
+};
+
+const sameIdeaKey = (idea: Idea) => `${idea.title.trim().toLowerCase()}\n${idea.description.trim().toLowerCase()}`;
+
+const matchKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+/**
+ * Every distinct idea of the run's full passes, in order of first
+ * appearance. An idea kept unchanged by a refinement pass is entered once,
+ * with its best rating.
+ */
+export const tournamentCandidates = (history: IterationData[]): Idea[] => {
+  const candidates = new Map<string, Idea>();
+  for (const iteration of history) {
+    if (iteration.revision) continue;
+    for (const idea of iteration.ideas) {
+      const key = sameIdeaKey(idea);
+      const existing = candidates.get(key);
+      if (!existing || idea.rating > existing.rating) candidates.set(key, idea);
+    }
+  }
+  return [...candidates.values()];
+};
+
+/**
+ * The strongest version of each slot of the run, strongest first, at most
+ * `count` of them. Versions of one slot refine the same idea, so a slot
+ * fills at most one place in the final set.
+ */
+export const strongestPerSlot = (ranked: Idea[], history: IterationData[], count: number): Idea[] => {
+  const slots = new Map(history.flatMap((iteration) => iteration.ideas.map((idea, slot) => [idea.id, slot] as const)));
+  const taken = new Set<number | undefined>();
+  return ranked
+    .filter((idea) => {
+      const slot = slots.get(idea.id);
+      if (taken.has(slot)) return false;
+      taken.add(slot);
+      return true;
+    })
+    .slice(0, count);
+};
+
+// Points an idea took from a match: 1 for a win, ½ for a tie
+const pointsFor = (match: TournamentMatch, id: string) =>
+  match.winner === 'tie' ? 0.5 : Number((match.winner === 'a') === (match.a === id));
+
+/**
+ * Bradley-Terry strengths fitted with the MM algorithm, as Elo ratings by
+ * idea id. Each idea also gets one win and one loss against a virtual
+ * opponent of strength 1, which keeps unbeaten and winless ideas finite and
+ * ideas without matches at 1000.
+ */
+export const bradleyTerry = (ids: string[], matches: TournamentMatch[]): Record<string, number> => {
+  let strength = new Map(ids.map((id) => [id, 1]));
+  for (let step = 0; step < FIT_ITERATIONS; step++) {
+    const next = new Map<string, number>();
+    for (const id of ids) {
+      const own = strength.get(id)!;
+      let points = 1;
+      let denominator = 2 / (own + 1);
+      for (const match of matches) {
+        if (match.a !== id && match.b !== id) continue;
+        points += pointsFor(match, id);
+        denominator += 1 / (own + strength.get(match.a === id ? match.b : match.a)!);
+      }
+      next.set(id, points / denominator);
+    }
+    strength = next;
+  }
+  return Object.fromEntries(ids.map((id) => [id, Math.round(ELO_BASE + ELO_SCALE * Math.log10(strength.get(id)!))]));
+};
+
+// Pairs neighbours in `order`, skipping opponents already met where possible; an odd one out sits the round out
+const pairRound = (order: Idea[], met: Set<string>): [Idea, Idea][] => {
+  const pool = [...order];
+  const pairs: [Idea, Idea][] = [];
+  while (pool.length > 1) {
+    const first = pool.shift()!;
+    const fresh = pool.findIndex((other) => !met.has(matchKey(first.id, other.id)));
+    const [second] = pool.splice(Math.max(fresh, 0), 1);
+    pairs.push([first, second]);
+  }
+  return pairs;
+};
+
+const shuffle = <T>(items: T[], random: Random) =>
+  items
+    .map((item) => ({ item, key: random() }))
+    .sort((a, b) => a.key - b.key)
+    .map(({ item }) => item);
+
+export interface TournamentOptions {
+  originalPrompt: string;
+  currentPrompt: string;
+  rounds: number;
+  random: Random;
+  iteration: number;
+}
+
+/**
+ * Ranks the candidates by head-to-head comparisons. Returns every candidate,
+ * strongest first and carrying its Elo rating, plus the full record of the
+ * tournament. Ideas of equal strength keep their critic rating order.
+ */
+export async function runTournament(
+  runner: StageRunner,
+  comparator: StageConfig,
+  candidates: Idea[],
+  { originalPrompt, currentPrompt, rounds, random, iteration }: TournamentOptions
+): Promise<{ ideas: Idea[]; result: TournamentResult }> {
+  const ids = candidates.map((idea) => idea.id);
+  const possibleMatches = (ids.length * (ids.length - 1)) / 2;
+  const matches: TournamentMatch[] = [];
+  const met = new Set<string>();
+  let elo = bradleyTerry(ids, matches);
+  const ranked = () => [...candidates].sort((a, b) => elo[b.id] - elo[a.id] || b.rating - a.rating);
+
+  let order = shuffle(candidates, random);
+  let round = 0;
+  while (round < rounds && met.size < possibleMatches) {
+    round++;
+    // Which idea is shown first is random, so a positional bias averages out
+    const pairs = pairRound(order, met).map(([first, second]): [Idea, Idea] =>
+      (random() < 0.5 ? [first, second] : [second, first]));
+    const { value } = await runner.compare(comparator, {
+      originalPrompt,
+      currentPrompt,
+      pairs: pairs.map(([a, b]) => ({
+        A: { title: a.title, description: a.description },
+        B: { title: b.title, description: b.description },
+      })),
+    }, iteration);
+
+    pairs.forEach(([a, b], index) => {
+      met.add(matchKey(a.id, b.id));
+      matches.push({ round, a: a.id, b: b.id, winner: WINNERS[value.winners[index]] });
+    });
+    elo = bradleyTerry(ids, matches);
+    order = ranked();
+  }
+
+  const ideas = ranked().map((idea) => ({ ...idea, elo: elo[idea.id] }));
+  const standings = ideas.map((idea): TournamentStanding => {
+    const played = matches.filter((match) => match.a === idea.id || match.b === idea.id);
+    const points = played.map((match) => pointsFor(match, idea.id));
+    return {
+      ideaId: idea.id,
+      title: idea.title,
+      elo: idea.elo,
+      wins: points.filter((value) => value === 1).length,
+      losses: points.filter((value) => value === 0).length,
+      ties: points.filter((value) => value === 0.5).length,
+    };
+  });
+
+  return { ideas, result: { rounds: round, matches, standings } };
+}
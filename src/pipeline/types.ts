@@ -0,0 +1,246 @@
+import type {
+  Conversation,
+  CriticEnsembleSettings,
+  Direction,
+  DirectionMix,
+  GenerationSettings,
+  Idea,
+  IterationData,
+  IterationPolicy,
+  Mode,
+  ParseRecord,
+  PromptTemplateRef,
+  RevisionAction,
+  StageSettings,
+  TokenUsage,
+} from '../types';
+import type { JSONSchema } from './schemas';
+import type { PromptTemplate } from './templates';
+
+export type { IterationPolicy } from '../types';
+
+export type PipelineStage = 'enhancer' | 'generator' | 'critic' | 'expander';
+
+/**
+ * A single request to a language model, as issued by a pipeline stage.
+ * The instruction is the stage's system-style prompt and the message is the
+ * run-specific content; clients decide how to combine the two. Clients
+ * without native structured output ignore `responseSchema` and rely on the
+ * instruction asking for JSON.
+ */
+export interface LLMRequest {
+  stage: PipelineStage;
+  provider?: string;
+  instruction: string;
+  // Keep the instruction apart from the message where the backend allows it
+  systemInstruction?: boolean;
+  message: string;
+  model: string;
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  responseSchema?: JSONSchema;
+  signal?: AbortSignal;
+}
+
+/**
+ * Model output plus whatever usage metadata the backend reported
+ */
+export interface LLMResponse {
+  text: string;
+  model: string;
+  provider: string;
+  usage?: TokenUsage;
+}
+
+/**
+ * Piece of a streamed response. Usage, when reported, arrives on the last
+ * chunk and may come with empty text.
+ */
+export interface LLMStreamChunk {
+  text: string;
+  provider?: string;
+  usage?: TokenUsage;
+}
+
+/**
+ * Anything that can answer an LLMRequest. Injected into the pipeline so
+ * stages can run against Gemini, an OpenAI-compatible server or a fake model.
+ * Clients that implement `stream` let the pipeline surface ideas as they
+ * are written.
+ */
+export interface LLMClient {
+  generate(request: LLMRequest): Promise<LLMResponse>;
+  stream?(request: LLMRequest): AsyncIterable<LLMStreamChunk>;
+}
+
+/**
+ * Model settings and instruction prompt for one stage
+ */
+export interface StageConfig extends StageSettings {
+  instruction: string;
+  systemInstruction?: boolean;
+}
+
+/**
+ * Idea as returned by the generator, before it is rated and given an ID
+ */
+export type GeneratedIdea = Pick<Idea, 'title' | 'description' | 'direction'>;
+
+/**
+ * Parsed and validated critic output
+ */
+export interface CriticResponse {
+  ratings: number[];
+  feedback: string;
+  overallScore: string;
+}
+
+/**
+ * Parsed and validated comparator output: the winner of each pair, in the
+ * order the pairs were sent
+ */
+export interface ComparisonResponse {
+  winners: ('A' | 'B' | 'tie')[];
+}
+
+// An earlier idea as the model is shown it, without the id and time that only belong to its run
+export type ShownIdea = Omit<Idea, 'id' | 'createdAt'>;
+
+/**
+ * Everything the generator needs to refine the previous iteration
+ */
+export interface RefinementContext {
+  enhancedPrompt: string;
+  currentPrompt: string;
+  feedback: string;
+  previousIdeas: ShownIdea[];
+  directions: string[];
+}
+
+/**
+ * Everything the generator needs to revise a single idea of a finished run.
+ * `direction` is the creative direction the idea was generated under.
+ */
+export interface RevisionContext {
+  action: RevisionAction;
+  enhancedPrompt: string;
+  idea: GeneratedIdea;
+  feedback: string;
+  direction?: string;
+  otherIdeas: GeneratedIdea[];
+}
+
+/**
+ * Full description of a pipeline run. The critic is optional; without it
+ * the pipeline generates a single unrated set of ideas.
+ */
+export interface PipelineConfig {
+  mode: Mode;
+  enhancer: StageConfig;
+  generator: StageConfig;
+  critic?: StageConfig;
+  // The critic with an instruction for head-to-head comparisons, used by tournaments
+  comparator?: StageConfig;
+  // Fans the critic out to several judges and aggregates their ratings
+  criticEnsemble?: CriticEnsembleSettings;
+  // Similarity from which a generated idea is replaced as a near-duplicate (see similarity.ts)
+  duplicateThreshold?: number;
+  // Turns a single idea into a structured document on request
+  expander?: StageConfig;
+  // Pool the run's directions are drawn from, by weight
+  directions: Direction[];
+  directionCount: number;
+  directionMix?: DirectionMix;
+  idPrefix: string;
+  iterationPolicy: IterationPolicy;
+  maxParseRetries: number;
+  // Templates the instructions and messages were rendered from
+  templates?: PromptTemplateRef[];
+  buildGeneratorMessage: (enhancedPrompt: string, directions: string[]) => string;
+  buildRefinementMessage: (context: RefinementContext) => string;
+  buildRevisionMessage: (context: RevisionContext) => string;
+}
+
+/**
+ * Progress notifications emitted while a run is in flight
+ */
+export type PipelineEvent =
+  | { type: 'stage'; stage: PipelineStage; iteration: number }
+  | { type: 'response'; stage: PipelineStage; iteration: number; response: LLMResponse }
+  | { type: 'enhanced'; enhancedPrompt: string }
+  | { type: 'idea'; iteration: number; index: number; idea: GeneratedIdea }
+  // A near-duplicate at `index` of the iteration's streamed set was swapped for `idea`
+  | { type: 'replacement'; iteration: number; index: number; idea: GeneratedIdea }
+  | { type: 'parse'; record: ParseRecord }
+  | { type: 'iteration'; iteration: number; data: IterationData }
+  | { type: 'complete'; conversation: Conversation };
+
+export type PipelineListener = (event: PipelineEvent) => void;
+
+export interface PipelineOptions {
+  client: LLMClient;
+  onEvent?: PipelineListener;
+  signal?: AbortSignal;
+}
+
+/**
+ * Per-run choices for a full pipeline run. Without a seed one is picked at
+ * random; `directions` skips the draw and assigns these in order; `settings`
+ * overrides the config's models and loop policy, e.g. to replay a past run;
+ * new ideas that repeat an idea of the `history` sessions are replaced.
+ */
+export interface RunOptions {
+  seed?: number;
+  directions?: string[];
+  settings?: GenerationSettings;
+  history?: Conversation[];
+}
+
+/**
+ * Text a mode shows in the interface
+ */
+export interface ModeLabels {
+  // Selector button, history filter and export label
+  name: string;
+  placeholder: string;
+  resultsHeading: string;
+}
+
+/**
+ * Declarative description of a generation mode. The app supplies the model
+ * names; everything else a run of the mode needs is declared here. Without
+ * the critic the mode generates a single unrated set of `ideaCount` ideas.
+ */
+export interface ModeDefinition {
+  id: Mode;
+  labels: ModeLabels;
+  // Stage instructions
+  prompts: {
+    enhancer: PromptTemplate;
+    generator: PromptTemplate;
+    critic?: PromptTemplate;
+    // Head-to-head comparison prompt for tournaments; defaults to a generic one
+    comparator?: PromptTemplate;
+    expander?: PromptTemplate;
+  };
+  // Generator messages, rendered with the run's variables
+  messages: {
+    generator: PromptTemplate;
+    refinement: PromptTemplate;
+    revision: PromptTemplate;
+  };
+  // What each per-idea action asks the generator to do, as the revision's {{instruction}}
+  revisionInstructions: Record<RevisionAction, string>;
+  critic: boolean;
+  // Send each stage's prompt as a system instruction rather than prefixed to the message
+  systemInstruction?: boolean;
+  // Sampling settings per stage; models come from the app
+  stages?: Partial<Record<PipelineStage, Omit<StageSettings, 'model' | 'provider'>>>;
+  ideaCount: number;
+  // Shipped as the mode's read-only direction library
+  directions: Direction[];
+  directionMix?: DirectionMix;
+  idPrefix: string;
+  iterationPolicy?: Partial<IterationPolicy>;
+}
@@ -0,0 +1,62 @@
+/**
+ * Provider-neutral error type so the UI can react to "rate limited" or
+ * "bad API key" without knowing which backend produced it.
+ */
+
+export type LLMErrorCode =
+  | 'auth'
+  | 'rate_limit'
+  | 'invalid_request'
+  | 'unavailable'
+  | 'network'
+  | 'cancelled'
+  | 'unknown';
+
+export class LLMError extends Error {
+  code: LLMErrorCode;
+  provider: string;
+  status?: number;
+
+  constructor(message: string, code: LLMErrorCode, provider: string, status?: number) {
+    super(message);
+    this.name = 'LLMError';
+    this.code = code;
+    this.provider = provider;
+    this.status = status;
+  }
+}
+
+// True for the error fetch and AbortSignal.throwIfAborted() raise on abort
+export const isAbortError = (error: unknown): boolean =>
+  (error instanceof Error || error instanceof DOMException) && error.name === 'AbortError';
+
+export const codeFromStatus = (status?: number): LLMErrorCode => {
+  if (!status) return 'unknown';
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'rate_limit';
+  if (status >= 500) return 'unavailable';
+  if (status >= 400) return 'invalid_request';
+  return 'unknown';
+};
+
+/**
+ * Wraps anything thrown by a backend in an LLMError. Status codes are taken
+ * from the error object when present, or from a "[429 Too Many Requests]"
+ * style prefix in the message as produced by the Gemini SDK.
+ */
+export const toLLMError = (error: unknown, provider: string): LLMError => {
+  if (error instanceof LLMError) return error;
+  if (isAbortError(error)) return new LLMError('Request was cancelled', 'cancelled', provider);
+
+  const message = error instanceof Error ? error.message : String(error);
+  const explicitStatus = (error as { status?: unknown } | null)?.status;
+  const status = typeof explicitStatus === 'number'
+    ? explicitStatus
+    : Number(message.match(/\[(\d{3})[ \]]/)?.[1]) || undefined;
+
+  if (!status && error instanceof TypeError) {
+    return new LLMError(`Could not reach ${provider}: ${message}`, 'network', provider);
+  }
+
+  return new LLMError(message, codeFromStatus(status), provider, status);
+};
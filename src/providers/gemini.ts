@@ -0,0 +1,51 @@
+import { requestGemini, streamWithGemini, type GeminiRequest } from '../utils/api';
+import type { LLMRequest } from '../pipeline/types';
+import { LLMError, toLLMError } from './errors';
+import type { LLMProvider } from './types';
+
+/**
+ * Gemini through generateWithGemini: the SDK directly in development and
+ * the /api/gemini proxy in production. The stage instruction is prepended
+ * to the message as a single prompt, or sent as Gemini's system instruction
+ * when the stage asks for it.
+ */
+const toGeminiRequest = (request: LLMRequest): GeminiRequest => ({
+  ...(request.systemInstruction
+    ? { prompt: request.message, systemInstruction: request.instruction }
+    : { prompt: request.instruction + "\n\n" + request.message }),
+  model: request.model,
+  temperature: request.temperature,
+  topP: request.topP,
+  maxTokens: request.maxTokens,
+  ...(request.responseSchema && {
+    responseMimeType: 'application/json',
+    responseSchema: request.responseSchema
+  })
+});
+
+// The SDK wraps aborts in its own error type, so check the signal instead
+const mapError = (error: unknown, request: LLMRequest, id: string) =>
+  request.signal?.aborted
+    ? new LLMError('Request was cancelled', 'cancelled', id)
+    : toLLMError(error, id);
+
+export const createGeminiProvider = (id = 'gemini'): LLMProvider => ({
+  id,
+  async generate(request) {
+    try {
+      const response = await requestGemini(toGeminiRequest(request), { signal: request.signal });
+      return { ...response, provider: id };
+    } catch (error) {
+      throw mapError(error, request, id);
+    }
+  },
+  async *stream(request) {
+    try {
+      for await (const chunk of streamWithGemini(toGeminiRequest(request), { signal: request.signal })) {
+        yield { ...chunk, provider: id };
+      }
+    } catch (error) {
+      throw mapError(error, request, id);
+    }
+  },
+});
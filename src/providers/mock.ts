@@ -0,0 +1,120 @@
+import type { LLMRequest } from '../pipeline/types';
+import type { LLMProvider } from './types';
+
+/**
+ * Deterministic in-process model for offline development and for exercising
+ * the pipeline without network access. The same request always produces the
+ * same response; pass `respond` to script specific outputs.
+ */
+
+export interface MockProviderOptions {
+  id?: string;
+  respond?: (request: LLMRequest) => string | undefined;
+}
+
+// FNV-1a, good enough to spread ratings across requests
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const countIdeas = (message: string) => {
+  try {
+    const payload = JSON.parse(message);
+    if (Array.isArray(payload?.ideas)) return payload.ideas.length;
+  } catch {
+    // Not a critic payload
+  }
+  if (/exactly one idea/.test(message)) return 1;
+  return Number(message.match(/Generate (\d+)|for the (\d+) ideas/)?.slice(1).find(Boolean)) || 5;
+};
+
+// Number of head-to-head pairs when the critic is running a tournament round
+const countPairs = (message: string): number | undefined => {
+  try {
+    const payload = JSON.parse(message);
+    if (Array.isArray(payload?.pairs)) return payload.pairs.length;
+  } catch {
+    // Not a comparator payload
+  }
+  return undefined;
+};
+
+const scoreFor = (average: number) =>
+  average >= 95 ? 'A++' : average >= 90 ? 'A+' : average >= 80 ? 'A' : average >= 70 ? 'B' : 'C';
+
+export const defaultMockResponse = (request: LLMRequest): string => {
+  const seed = hash(request.message);
+  const topic = request.message.split('\n')[0].slice(0, 60);
+
+  switch (request.stage) {
+    case 'enhancer':
+      return `Generate innovative ideas involving ${request.message}`;
+    case 'generator':
+      return JSON.stringify(
+        Array.from({ length: countIdeas(request.message) }, (_, index) => ({
+          title: `Mock idea ${index + 1}`,
+          description: `A deterministic placeholder idea for "${topic}" (variant ${(seed + index) % 1000}).`,
+        }))
+      );
+    case 'critic': {
+      const pairs = countPairs(request.message);
+      if (pairs !== undefined) {
+        return JSON.stringify({
+          winners: Array.from({ length: pairs }, (_, index) => ((seed >>> index) & 1 ? 'A' : 'B')),
+        });
+      }
+      const ratings = Array.from({ length: countIdeas(request.message) }, (_, index) =>
+        70 + ((seed >>> index) % 30)
+      );
+      const average = ratings.reduce((a, b) => a + b, 0) / (ratings.length || 1);
+      return JSON.stringify({
+        ratings,
+        feedback: 'Mock feedback: sharpen the weakest idea and keep the strongest.',
+        overallScore: scoreFor(average),
+      });
+    }
+    case 'expander': {
+      const sections = [...request.message.matchAll(/^- (.+)$/gm)].map((match) => match[1]);
+      return sections.map((section) => `## ${section}\n\nPlaceholder ${section.toLowerCase()} for "${topic}".`).join('\n\n');
+    }
+  }
+};
+
+const STREAM_CHUNK_SIZE = 40;
+
+export const createMockProvider = ({ id = 'mock', respond }: MockProviderOptions = {}): LLMProvider => {
+  const answer = (request: LLMRequest) => {
+    const text = respond?.(request) ?? defaultMockResponse(request);
+    const promptTokens = estimateTokens(request.instruction + request.message);
+    const completionTokens = estimateTokens(text);
+    return {
+      text,
+      model: request.model,
+      provider: id,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+    };
+  };
+
+  return {
+    id,
+    async generate(request) {
+      request.signal?.throwIfAborted();
+      return answer(request);
+    },
+    async *stream(request) {
+      const { text, usage } = answer(request);
+      for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+        request.signal?.throwIfAborted();
+        yield { text: text.slice(i, i + STREAM_CHUNK_SIZE), provider: id };
+      }
+      yield { text: '', provider: id, usage };
+    },
+  };
+};
@@ -0,0 +1,121 @@
+import type { LLMRequest } from '../pipeline/types';
+import type { TokenUsage } from '../types';
+import { readServerSentEvents } from '../utils/sse';
+import { LLMError, codeFromStatus, toLLMError } from './errors';
+import type { LLMProvider } from './types';
+
+export interface OpenAICompatibleOptions {
+  id?: string;
+  baseUrl: string;
+  apiKey?: string;
+}
+
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: { message?: { content?: string | null } }[];
+  usage?: ChatCompletionUsage;
+  error?: { message?: string };
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+  usage?: ChatCompletionUsage | null;
+}
+
+const toTokenUsage = (usage?: ChatCompletionUsage | null): TokenUsage | undefined => usage ? {
+  promptTokens: usage.prompt_tokens || 0,
+  completionTokens: usage.completion_tokens || 0,
+  totalTokens: usage.total_tokens || 0,
+} : undefined;
+
+/**
+ * Any server speaking the OpenAI chat-completions protocol: OpenAI itself,
+ * or a self-hosted Ollama / llama.cpp / vLLM endpoint. The stage
+ * instruction becomes the system message.
+ */
+export const createOpenAICompatibleProvider = ({
+  id = 'openai',
+  baseUrl,
+  apiKey,
+}: OpenAICompatibleOptions): LLMProvider => {
+  const post = async (request: LLMRequest, stream: boolean) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: request.model,
+          messages: [
+            { role: 'system', content: request.instruction },
+            { role: 'user', content: request.message },
+          ],
+          temperature: request.temperature,
+          top_p: request.topP,
+          max_tokens: request.maxTokens,
+          ...(stream && { stream: true, stream_options: { include_usage: true } }),
+        }),
+        signal: request.signal,
+      });
+    } catch (error) {
+      throw toLLMError(error, id);
+    }
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({})) as ChatCompletionResponse;
+      throw new LLMError(
+        data.error?.message || `Failed to generate content: ${response.status}`,
+        codeFromStatus(response.status),
+        id,
+        response.status
+      );
+    }
+
+    return response;
+  };
+
+  return {
+    id,
+    async generate(request) {
+      const response = await post(request, false);
+      const data = await response.json().catch(() => ({})) as ChatCompletionResponse;
+
+      const text = data.choices?.[0]?.message?.content;
+      if (typeof text !== 'string') {
+        throw new LLMError('Response contained no message content', 'unknown', id, response.status);
+      }
+
+      return {
+        text,
+        model: data.model || request.model,
+        provider: id,
+        usage: toTokenUsage(data.usage),
+      };
+    },
+    async *stream(request) {
+      const response = await post(request, true);
+      try {
+        for await (const { data } of readServerSentEvents(response)) {
+          if (data === '[DONE]') return;
+          const chunk = JSON.parse(data) as ChatCompletionChunk;
+          yield {
+            text: chunk.choices?.[0]?.delta?.content || '',
+            provider: id,
+            usage: toTokenUsage(chunk.usage),
+          };
+        }
+      } catch (error) {
+        throw toLLMError(error, id);
+      }
+    },
+  };
+};
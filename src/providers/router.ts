@@ -0,0 +1,41 @@
+import type { LLMClient, LLMRequest, PipelineStage } from '../pipeline/types';
+import { LLMError } from './errors';
+import type { LLMProvider } from './types';
+
+export interface ProviderRouting {
+  providers: LLMProvider[];
+  defaultProvider: string;
+  stages?: Partial<Record<PipelineStage, string>>;
+}
+
+/**
+ * Builds a pipeline client that dispatches each request to a provider.
+ * Resolution order: the stage config's own `provider`, then the per-stage
+ * routing table, then the default.
+ */
+export const createProviderRouter = ({ providers, defaultProvider, stages = {} }: ProviderRouting): LLMClient => {
+  const byId = new Map(providers.map((provider) => [provider.id, provider]));
+
+  const resolve = (request: LLMRequest) => {
+    const id = request.provider || stages[request.stage] || defaultProvider;
+    const provider = byId.get(id);
+    if (!provider) throw new LLMError(`Unknown LLM provider "${id}"`, 'invalid_request', id);
+    return provider;
+  };
+
+  return {
+    async generate(request) {
+      return resolve(request).generate(request);
+    },
+    // Providers without streaming support answer in a single chunk
+    async *stream(request) {
+      const provider = resolve(request);
+      if (provider.stream) {
+        yield* provider.stream(request);
+        return;
+      }
+      const response = await provider.generate(request);
+      yield { text: response.text, provider: response.provider, usage: response.usage };
+    },
+  };
+};
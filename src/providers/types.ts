@@ -0,0 +1,9 @@
+import type { LLMClient } from '../pipeline/types';
+
+/**
+ * A named LLM backend. Providers return LLMResponse objects and throw
+ * LLMError (see ./errors) for every failure.
+ */
+export interface LLMProvider extends LLMClient {
+  id: string;
+}
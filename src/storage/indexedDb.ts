@@ -0,0 +1,55 @@
+import type { RecordStore, StoreName } from './types';
+
+const STORE_NAMES: StoreName[] = ['conversations', 'collections', 'directionLibraries'];
+// Bump when adding an object store so onupgradeneeded creates it
+const DB_VERSION = 3;
+
+const settle = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// One connection per database, shared by every store in it
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+const open = (dbName: string) => {
+  let connection = connections.get(dbName);
+  if (!connection) {
+    connection = new Promise((resolve, reject) => {
+      const request = indexedDB.open(dbName, DB_VERSION);
+      request.onupgradeneeded = () => {
+        for (const name of STORE_NAMES) {
+          if (!request.result.objectStoreNames.contains(name)) {
+            request.result.createObjectStore(name, { keyPath: 'id' });
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    connections.set(dbName, connection);
+  }
+  return connection;
+};
+
+export const createIndexedDBStore = <T extends { id: string }>(
+  storeName: StoreName,
+  dbName = 'muse-bot'
+): RecordStore<T> => {
+  const run = async <R>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<R>) => {
+    const db = await open(dbName);
+    return settle(operation(db.transaction(storeName, mode).objectStore(storeName)));
+  };
+
+  return {
+    list: () => run<T[]>('readonly', (store) => store.getAll()),
+    get: (id) => run<T | undefined>('readonly', (store) => store.get(id)),
+    async put(record) {
+      await run('readwrite', (store) => store.put(record));
+    },
+    async delete(id) {
+      await run('readwrite', (store) => store.delete(id));
+    },
+  };
+};
@@ -0,0 +1,35 @@
+import type { RecordStore, StoreName } from './types';
+
+// Fallback for browsers without a usable IndexedDB; each store lives under one key
+export const createLocalStorageStore = <T extends { id: string }>(
+  storeName: StoreName,
+  prefix = 'muse-bot'
+): RecordStore<T> => {
+  const key = `${prefix}:${storeName}`;
+
+  const read = (): T[] => {
+    try {
+      const parsed = JSON.parse(localStorage.getItem(key) || '[]');
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  };
+
+  const write = (records: T[]) => localStorage.setItem(key, JSON.stringify(records));
+
+  return {
+    async list() {
+      return read();
+    },
+    async get(id) {
+      return read().find((record) => record.id === id);
+    },
+    async put(record) {
+      write([...read().filter((existing) => existing.id !== record.id), record]);
+    },
+    async delete(id) {
+      write(read().filter((record) => record.id !== id));
+    },
+  };
+};
@@ -0,0 +1,21 @@
+import type { Collection, Conversation, DirectionLibrary } from '../types';
+
+/**
+ * Persistence for locally saved data. Every backend stores whole records
+ * keyed by their id; conversations are stored including their iteration
+ * history.
+ */
+export interface RecordStore<T extends { id: string }> {
+  list(): Promise<T[]>;
+  get(id: string): Promise<T | undefined>;
+  // Inserts or replaces the record with the same id
+  put(record: T): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export type ConversationStore = RecordStore<Conversation>;
+export type CollectionStore = RecordStore<Collection>;
+export type DirectionLibraryStore = RecordStore<DirectionLibrary>;
+
+// Object stores / keys, one per record type
+export type StoreName = 'conversations' | 'collections' | 'directionLibraries';
@@ -3,6 +3,155 @@ export interface Idea {
   title: string;
   description: string;
   rating: number;
+  // The creative direction the idea was generated under
+  direction?: string;
+  // Each judge's rating, by judge name, when a critic ensemble scored the idea
+  judgeRatings?: Record<string, number>;
+  // Strength on the Elo scale when the final set was chosen by a tournament
+  elo?: number;
+  // When the idea was rated
+  createdAt?: number;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ParseRecord {
+  stage: string;
+  iteration: number;
+  attempt: number;
+  outcome: 'repaired' | 'retried' | 'failed';
+  repairs?: string[];
+  error?: string;
+}
+
+// Id of a registered generation mode (see pipeline/modes/registry); stored with every session
+export type Mode = string;
+
+/**
+ * When the refinement loop keeps going and how the final set is chosen.
+ * The loop runs at least minIterations (unless stopped by a top score) and
+ * at most maxIterations, and continues past the minimum only while each
+ * iteration improves the average rating by improvementThreshold (0.05 = 5%).
+ */
+export interface IterationPolicy {
+  minIterations: number;
+  maxIterations: number;
+  improvementThreshold: number;
+  stopOnTopScore: boolean;
+  // 'best-version' keeps the highest-rated version of each idea across the
+  // run; 'best-iteration' keeps the whole set from the best iteration;
+  // 'tournament' ranks every idea of the run head-to-head and keeps the top ones
+  selection: 'best-version' | 'best-iteration' | 'tournament';
+  // Rounds of head-to-head comparisons when the selection is a tournament
+  tournamentRounds?: number;
+}
+
+// Model and sampling settings of one pipeline stage
+export interface StageSettings {
+  model: string;
+  provider?: string;
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+}
+
+// How the ratings of several critic judges are combined into one
+export type RatingAggregation = 'mean' | 'median' | 'trimmed-mean';
+
+// One judge of a critic ensemble; unset fields fall back to the critic stage
+export interface JudgeSettings {
+  name: string;
+  model?: string;
+  provider?: string;
+  temperature?: number;
+  // A built-in persona id (see pipeline/ensemble) or a free-text persona
+  persona?: string;
+}
+
+export interface CriticEnsembleSettings {
+  judges: JudgeSettings[];
+  aggregation: RatingAggregation;
+}
+
+// What a run used besides its prompt and directions, recorded so it can be replayed
+export interface GenerationSettings {
+  stages: Partial<Record<'enhancer' | 'generator' | 'critic' | 'expander', StageSettings>>;
+  iterationPolicy: IterationPolicy;
+  directionCount: number;
+  criticEnsemble?: CriticEnsembleSettings;
+  duplicateThreshold?: number;
+}
+
+// A prompt template a run used, by id and version (see pipeline/templates)
+export interface PromptTemplateRef {
+  id: string;
+  version: number;
+}
+
+// Per-idea actions offered once a run has finished
+export type RevisionAction = 'refine' | 'practical' | 'wilder' | 'regenerate';
+
+export type ExpansionTemplate = 'concept' | 'lean-canvas' | 'prd' | 'pitch';
+
+// Structured Markdown document produced by expanding a single idea
+export interface IdeaExpansion {
+  ideaId: string;
+  template: ExpansionTemplate;
+  markdown: string;
+  timestamp: number;
+}
+
+// One ensemble judge's verdict on a set of ideas
+export interface JudgeVerdict {
+  judge: string;
+  ratings: number[];
+  feedback: string;
+  overallScore: string;
+}
+
+// One head-to-head comparison of a tournament, by idea id
+export interface TournamentMatch {
+  round: number;
+  a: string;
+  b: string;
+  winner: 'a' | 'b' | 'tie';
+}
+
+export interface TournamentStanding {
+  ideaId: string;
+  title: string;
+  elo: number;
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+// How the final set of a tournament run was ranked; standings are best first
+export interface TournamentResult {
+  rounds: number;
+  matches: TournamentMatch[];
+  standings: TournamentStanding[];
+}
+
+// A generated idea found too similar to another idea of the set, of an earlier iteration or of a saved session
+export interface DuplicateFlag {
+  // Position of the idea in the generated set
+  index: number;
+  title: string;
+  similarTo: {
+    title: string;
+    source: 'set' | 'iteration' | 'history';
+    iteration?: number;
+    conversationId?: string;
+  };
+  // Estimated Jaccard similarity of the two ideas' wording, 0-1
+  similarity: number;
+  // Whether a replacement was requested in its place
+  replaced: boolean;
 }
 
 export interface IterationData {
@@ -10,11 +159,18 @@ export interface IterationData {
   feedback: string;
   score: string;
   ratings: number[];
+  // Individual verdicts when the ratings come from a critic ensemble
+  judges?: JudgeVerdict[];
+  // Near-duplicates found in the generator's output before the critic saw it
+  duplicates?: DuplicateFlag[];
+  // Set when this entry records a single-idea revision rather than a full pass
+  revision?: { index: number; action: RevisionAction };
 }
 
 export interface Conversation {
   id: string;
   timestamp: number;
+  mode?: Mode;
   prompt: string;
   enhancedPrompt: string;
   ideas: Idea[];
@@ -26,4 +182,62 @@ export interface Conversation {
   bestScore: string;
   improvementThresholdMet: boolean;
   iterationHistory: IterationData[];
-}
\ No newline at end of file
+  bestIteration?: number;
+  directions?: string[];
+  // Seed for the run's random choices (direction draw and idea ids)
+  seed?: number;
+  settings?: GenerationSettings;
+  // Every prompt template of the mode's pipeline when the run was made
+  templates?: PromptTemplateRef[];
+  expansions?: IdeaExpansion[];
+  // How different the final ideas are from each other, 0-100
+  diversity?: number;
+  // Set when the final set was chosen by a tournament across all iterations
+  tournament?: TournamentResult;
+  usage?: TokenUsage;
+  parseLog?: ParseRecord[];
+}
+
+// An idea kept outside its session, with enough context to stand on its own
+export interface SavedIdea extends Idea {
+  prompt: string;
+  mode: Mode;
+  conversationId: string;
+  savedAt: number;
+}
+
+export interface Collection {
+  id: string;
+  name: string;
+  tags: string[];
+  ideas: SavedIdea[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type DirectionCategory = 'practical' | 'playful' | 'absurd' | 'market' | 'social' | 'aesthetic' | 'technology';
+
+// Per-run bounds on how many directions come from each category
+export type DirectionMix = Partial<Record<DirectionCategory, { min?: number; max?: number }>>;
+
+// One creative direction; disabled or zero-weight directions are never drawn
+export interface Direction {
+  id: string;
+  text: string;
+  // Uncategorised directions only count towards the total
+  category?: DirectionCategory;
+  enabled: boolean;
+  // Relative chance of being drawn for a run (1 = normal)
+  weight: number;
+}
+
+// A named set of directions a run draws from; built-in libraries are read-only
+export interface DirectionLibrary {
+  id: string;
+  name: string;
+  mode: Mode;
+  directions: Direction[];
+  builtIn?: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
@@ -1,23 +1,129 @@
 /**
  * API utilities for interacting with AI services
  */
+import type { ResponseSchema } from '@google/generative-ai';
+import type { TokenUsage } from '../types';
+import type { JSONSchema } from '../pipeline/schemas';
+import { LLMError, codeFromStatus } from '../providers/errors';
+import { readServerSentEvents } from './sse';
 
 /**
  * Interface for the Gemini API request
  */
-interface GeminiRequest {
+export interface GeminiRequest {
   prompt: string;
+  // Sent as Gemini's system instruction rather than as part of the prompt
+  systemInstruction?: string;
   model?: string;
   temperature?: number;
+  topP?: number;
   maxTokens?: number;
+  responseMimeType?: string;
+  responseSchema?: JSONSchema;
 }
 
 /**
  * Interface for the Gemini API response
  */
-interface GeminiResponse {
+export interface GeminiResponse {
   text: string;
   model: string;
+  usage?: TokenUsage;
+}
+
+/**
+ * Per-call options that are not part of the request body
+ */
+export interface GeminiCallOptions {
+  signal?: AbortSignal;
+}
+
+/**
+ * Piece of a streamed Gemini response
+ */
+export interface GeminiStreamChunk {
+  text: string;
+  usage?: TokenUsage;
+}
+
+/**
+ * Maps Gemini's usageMetadata onto the provider-neutral TokenUsage shape
+ */
+export const toTokenUsage = (metadata?: {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  totalTokenCount?: number;
+}): TokenUsage | undefined => metadata && {
+  promptTokens: metadata.promptTokenCount || 0,
+  completionTokens: metadata.candidatesTokenCount || 0,
+  totalTokens: metadata.totalTokenCount || 0,
+};
+
+/**
+ * Creates an SDK model for direct calls (DEV mode only)
+ */
+async function getDevModel(request: GeminiRequest) {
+  console.log('🔧 Using direct API call (DEV mode)');
+  const { GoogleGenerativeAI } = await import('@google/generative-ai');
+
+  const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new Error('VITE_GEMINI_API_KEY not found in environment');
+  }
+
+  const genAI = new GoogleGenerativeAI(apiKey);
+  return genAI.getGenerativeModel({
+    model: request.model || 'gemini-1.0-pro',
+    systemInstruction: request.systemInstruction,
+    generationConfig: {
+      temperature: request.temperature || 0.7,
+      topP: request.topP,
+      maxOutputTokens: request.maxTokens || 1024,
+      responseMimeType: request.responseMimeType,
+      responseSchema: request.responseSchema as ResponseSchema | undefined,
+    }
+  });
+}
+
+/**
+ * Posts a request to the proxy API endpoint, throwing on non-2xx responses
+ */
+async function postToProxy(
+  body: GeminiRequest & { stream?: boolean },
+  { signal }: GeminiCallOptions
+): Promise<Response> {
+  console.log('🔄 Using proxy API endpoint (PRODUCTION)');
+  const baseUrl = window.location.origin;
+  const apiEndpoint = `${baseUrl}/api/gemini`;
+  console.log('📍 API Endpoint:', apiEndpoint);
+
+  const response = await fetch(apiEndpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+    signal
+  });
+
+  console.log('📥 Response received:', { 
+    status: response.status, 
+    ok: response.ok,
+    statusText: response.statusText
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => '');
+    console.error('❌ API request failed:', response.status, response.statusText, errorText);
+    throw new LLMError(
+      `Failed to generate content: ${response.status}`,
+      codeFromStatus(response.status),
+      'gemini',
+      response.status
+    );
+  }
+
+  return response;
 }
 
 /**
@@ -26,8 +132,21 @@ interface GeminiResponse {
  * - In production: Uses the proxy API endpoint
  */
 export async function generateWithGemini(
-  request: GeminiRequest
+  request: GeminiRequest,
+  options: GeminiCallOptions = {}
 ): Promise<string> {
+  const response = await requestGemini(request, options);
+  return response.text;
+}
+
+/**
+ * Same as generateWithGemini but resolves with the model name and token
+ * usage alongside the text
+ */
+export async function requestGemini(
+  request: GeminiRequest,
+  options: GeminiCallOptions = {}
+): Promise<GeminiResponse> {
   console.log('🔄 Generating content with Gemini', {
     prompt: request.prompt.substring(0, 50) + '...',
     model: request.model
@@ -35,64 +154,70 @@ export async function generateWithGemini(
 
   // For local development, use the API directly
   if (import.meta.env.DEV) {
-    console.log('🔧 Using direct API call (DEV mode)');
-    const { GoogleGenerativeAI } = await import('@google/generative-ai');
-    
-    const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error('VITE_GEMINI_API_KEY not found in environment');
-    }
-    
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({
-      model: request.model || 'gemini-1.0-pro',
-      generationConfig: {
-        temperature: request.temperature || 0.7,
-        maxOutputTokens: request.maxTokens || 1024,
-      }
-    });
-    
-    const result = await model.generateContent(request.prompt);
+    const model = await getDevModel(request);
+    const result = await model.generateContent(request.prompt, { signal: options.signal });
     const response = await result.response;
-    return response.text();
+    return {
+      text: response.text(),
+      model: request.model || 'gemini-1.0-pro',
+      usage: toTokenUsage(response.usageMetadata),
+    };
   }
   
   // For production, use the proxy API endpoint
-  console.log('🔄 Using proxy API endpoint (PRODUCTION)');
   try {
-    const baseUrl = window.location.origin;
-    const apiEndpoint = `${baseUrl}/api/gemini`;
-    console.log('📍 API Endpoint:', apiEndpoint);
-    
-    const response = await fetch(apiEndpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(request)
-    });
-
-    console.log('📥 Response received:', { 
-      status: response.status, 
-      ok: response.ok,
-      statusText: response.statusText
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => '');
-      console.error('❌ API request failed:', response.status, response.statusText, errorText);
-      throw new Error(`Failed to generate content: ${response.status}`);
-    }
-
+    const response = await postToProxy(request, options);
     const data = await response.json() as GeminiResponse;
     console.log('✅ Content successfully generated');
-    return data.text;
+    return data;
   } catch (error) {
     console.error('🚨 Error generating content:', error);
     throw error;
   }
 };
 
+/**
+ * Streaming variant of generateWithGemini. Yields text chunks as Gemini
+ * produces them; the final chunk carries token usage when available.
+ * - In development: Uses generateContentStream directly
+ * - In production: Reads Server-Sent Events from the proxy API endpoint
+ */
+export async function* streamWithGemini(
+  request: GeminiRequest,
+  options: GeminiCallOptions = {}
+): AsyncGenerator<GeminiStreamChunk> {
+  console.log('🔄 Streaming content with Gemini', {
+    prompt: request.prompt.substring(0, 50) + '...',
+    model: request.model
+  });
+
+  if (import.meta.env.DEV) {
+    const model = await getDevModel(request);
+    const result = await model.generateContentStream(request.prompt, { signal: options.signal });
+    for await (const chunk of result.stream) {
+      yield { text: chunk.text() };
+    }
+    const response = await result.response;
+    yield { text: '', usage: toTokenUsage(response.usageMetadata) };
+    return;
+  }
+
+  const response = await postToProxy({ ...request, stream: true }, options);
+  for await (const { event, data } of readServerSentEvents(response)) {
+    const payload = JSON.parse(data);
+    if (event === 'error') {
+      const status = typeof payload.status === 'number' ? payload.status : undefined;
+      throw new LLMError(payload.message || payload.error, codeFromStatus(status), 'gemini', status);
+    }
+    if (event === 'done') {
+      console.log('✅ Content successfully streamed');
+      yield { text: '', usage: payload.usage };
+      return;
+    }
+    yield { text: payload.text || '' };
+  }
+};
+
 /**
  * Legacy function - maintained for compatibility
  * @deprecated Use generateWithGemini instead
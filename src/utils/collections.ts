@@ -0,0 +1,40 @@
+import type { Collection, Conversation, Idea, SavedIdea } from '../types';
+import { DEFAULT_MODE } from '../pipeline/modes/registry';
+
+// Starred ideas live in a built-in collection that cannot be deleted
+export const FAVORITES_ID = 'favorites';
+
+export const createCollection = (name: string, tags: string[] = [], id = `collection-${Date.now()}`): Collection => ({
+  id,
+  name,
+  tags,
+  ideas: [],
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+});
+
+export const createFavorites = () => createCollection('Favorites', [], FAVORITES_ID);
+
+// Free-form tags as typed by the user, e.g. "food, q3 , Food" → ["food", "q3"]
+export const parseTags = (text: string) =>
+  [...new Set(text.split(',').map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+
+export const toSavedIdea = (idea: Idea, conversation: Conversation): SavedIdea => ({
+  ...idea,
+  prompt: conversation.prompt,
+  mode: conversation.mode ?? DEFAULT_MODE,
+  conversationId: conversation.id,
+  savedAt: Date.now(),
+});
+
+// A collection holds each idea at most once
+export const withIdea = (collection: Collection, idea: SavedIdea): Collection =>
+  collection.ideas.some((existing) => existing.id === idea.id)
+    ? collection
+    : { ...collection, ideas: [...collection.ideas, idea], updatedAt: Date.now() };
+
+export const withoutIdea = (collection: Collection, ideaId: string): Collection => ({
+  ...collection,
+  ideas: collection.ideas.filter((idea) => idea.id !== ideaId),
+  updatedAt: Date.now(),
+});
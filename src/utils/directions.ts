@@ -0,0 +1,124 @@
+import type { Direction, DirectionCategory, DirectionLibrary, Mode } from '../types';
+import { DIRECTION_CATEGORIES } from '../pipeline/directions';
+import { getMode, isRegisteredMode } from '../pipeline/modes/registry';
+
+export const DIRECTIONS_SCHEMA = 'muse-bot-directions';
+export const DIRECTIONS_SCHEMA_VERSION = 1;
+
+const builtInLibraries = new Map<Mode, DirectionLibrary>();
+
+// The list each mode ships with; it is never stored and cannot be edited.
+// Cached so the library keeps its identity across renders.
+export const builtInLibrary = (mode: Mode): DirectionLibrary => {
+  let library = builtInLibraries.get(mode);
+  if (!library) {
+    library = {
+      id: `builtin-${mode}`,
+      name: 'Built-in directions',
+      mode,
+      directions: getMode(mode)?.directions ?? [],
+      builtIn: true,
+      createdAt: 0,
+      updatedAt: 0,
+    };
+    builtInLibraries.set(mode, library);
+  }
+  return library;
+};
+
+let sequence = 0;
+const newId = (prefix: string) => `${prefix}-${Date.now()}-${sequence++}`;
+
+export const createDirection = (text: string, weight = 1, enabled = true, category?: DirectionCategory): Direction => ({
+  id: newId('direction'),
+  text: text.trim(),
+  ...(category && { category }),
+  enabled,
+  weight,
+});
+
+export const createLibrary = (name: string, mode: Mode, directions: Direction[] = []): DirectionLibrary => ({
+  id: newId('directions'),
+  name,
+  mode,
+  directions,
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+});
+
+// Editable copy, e.g. of a built-in library; directions get fresh ids
+export const duplicateLibrary = (library: DirectionLibrary, name = `${library.name} (copy)`) =>
+  createLibrary(name, library.mode, library.directions.map((direction) =>
+    createDirection(direction.text, direction.weight, direction.enabled, direction.category)));
+
+export const serializeLibraries = (libraries: DirectionLibrary[]) => JSON.stringify({
+  schema: DIRECTIONS_SCHEMA,
+  version: DIRECTIONS_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  libraries: libraries.map(({ name, mode, directions }) => ({
+    name,
+    mode,
+    directions: directions.map(({ text, category, enabled, weight }) => ({ text, category, enabled, weight })),
+  })),
+}, null, 2);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const toDirection = (value: unknown, label: string): Direction => {
+  if (typeof value === 'string') {
+    if (!value.trim()) throw new Error(`${label} is empty`);
+    return createDirection(value);
+  }
+  if (!isRecord(value) || typeof value.text !== 'string' || !value.text.trim()) {
+    throw new Error(`${label} needs a non-empty "text"`);
+  }
+  const weight = value.weight === undefined ? 1 : Number(value.weight);
+  if (!Number.isFinite(weight) || weight < 0) throw new Error(`${label} has an invalid weight`);
+  if (value.category !== undefined && !Object.keys(DIRECTION_CATEGORIES).includes(String(value.category))) {
+    throw new Error(`${label} has an unknown category "${String(value.category)}"`);
+  }
+  return createDirection(value.text, weight, value.enabled !== false, value.category as DirectionCategory | undefined);
+};
+
+const toLibrary = (value: unknown, label: string, fallback: { name: string; mode: Mode }): DirectionLibrary => {
+  // A bare list of directions becomes one library named after the file
+  const record = Array.isArray(value) ? { directions: value } : value;
+  if (!isRecord(record)) throw new Error(`${label} is not an object`);
+  if (!Array.isArray(record.directions) || !record.directions.length) {
+    throw new Error(`${label} needs a non-empty "directions" array`);
+  }
+  if (record.mode !== undefined && !isRegisteredMode(record.mode)) {
+    throw new Error(`${label} has an unknown mode "${String(record.mode)}"`);
+  }
+  const name = typeof record.name === 'string' && record.name.trim() ? record.name.trim() : fallback.name;
+  const directions = record.directions.map((direction, index) => toDirection(direction, `${label} direction ${index + 1}`));
+  return createLibrary(name, (record.mode as Mode | undefined) ?? fallback.mode, directions);
+};
+
+/**
+ * Reads libraries from an exported file. Also accepts a JSON array of
+ * directions or plain text with one direction per line, which become a single
+ * library named `fallback.name` for `fallback.mode`. Imported libraries always
+ * get new ids, so they never replace existing ones.
+ */
+export const parseLibraries = (text: string, fallback: { name: string; mode: Mode }): DirectionLibrary[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    const lines = text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+    if (!lines.length) throw new Error('The file contains no directions');
+    return [createLibrary(fallback.name, fallback.mode, lines.map((line) => createDirection(line)))];
+  }
+
+  if (isRecord(data) && data.schema !== undefined) {
+    if (data.schema !== DIRECTIONS_SCHEMA) throw new Error(`Unknown file schema "${String(data.schema)}"`);
+    if (Number(data.version) > DIRECTIONS_SCHEMA_VERSION) {
+      throw new Error(`This file uses schema version ${String(data.version)}; this app reads up to version ${DIRECTIONS_SCHEMA_VERSION}`);
+    }
+    if (!Array.isArray(data.libraries) || !data.libraries.length) throw new Error('The file contains no libraries');
+    return data.libraries.map((library, index) => toLibrary(library, `Library ${index + 1}`, fallback));
+  }
+  return [toLibrary(data, 'The file', fallback)];
+};
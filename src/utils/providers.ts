@@ -0,0 +1,38 @@
+/**
+ * Builds the app's LLM client from environment variables.
+ *
+ * VITE_LLM_PROVIDER picks the default backend ("gemini", "openai", "local"
+ * or "mock"); VITE_ENHANCER_PROVIDER, VITE_GENERATOR_PROVIDER,
+ * VITE_CRITIC_PROVIDER and VITE_EXPANDER_PROVIDER override it for a single
+ * stage.
+ */
+import { createGeminiProvider } from '../providers/gemini';
+import { createOpenAICompatibleProvider } from '../providers/openai';
+import { createMockProvider } from '../providers/mock';
+import { createProviderRouter } from '../providers/router';
+
+const env = import.meta.env;
+
+export const llmClient = createProviderRouter({
+  providers: [
+    createGeminiProvider(),
+    createOpenAICompatibleProvider({
+      id: 'openai',
+      baseUrl: env.VITE_OPENAI_BASE_URL || 'https://api.openai.com/v1',
+      apiKey: env.VITE_OPENAI_API_KEY,
+    }),
+    createOpenAICompatibleProvider({
+      id: 'local',
+      baseUrl: env.VITE_LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+      apiKey: env.VITE_LOCAL_LLM_API_KEY,
+    }),
+    createMockProvider(),
+  ],
+  defaultProvider: env.VITE_LLM_PROVIDER || 'gemini',
+  stages: {
+    enhancer: env.VITE_ENHANCER_PROVIDER,
+    generator: env.VITE_GENERATOR_PROVIDER,
+    critic: env.VITE_CRITIC_PROVIDER,
+    expander: env.VITE_EXPANDER_PROVIDER,
+  },
+});
@@ -0,0 +1,95 @@
+import type { Conversation } from '../types';
+
+/**
+ * Client for the /api/share endpoint. Delete tokens for links created in
+ * this browser are kept in localStorage so the creator can revoke them later.
+ */
+
+export interface SharedConversation {
+  id: string;
+  conversation: Conversation;
+  createdAt: number;
+  expiresAt: number | null;
+}
+
+export interface CreatedShare {
+  id: string;
+  url: string;
+  deleteToken: string;
+  expiresAt: number | null;
+  conversationId: string;
+}
+
+const OWNED_SHARES_KEY = 'muse-bot:shares';
+
+export const shareUrl = (id: string) => `${window.location.origin}/s/${id}`;
+
+// The id from a /s/:id path, or null for any other page
+export const shareIdFromPath = (pathname: string) => pathname.match(/^\/s\/([A-Za-z0-9_-]+)\/?$/)?.[1] ?? null;
+
+const readOwnedShares = (): CreatedShare[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(OWNED_SHARES_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeOwnedShares = (shares: CreatedShare[]) => localStorage.setItem(OWNED_SHARES_KEY, JSON.stringify(shares));
+
+// Links created from this browser for a conversation that have not expired
+export const getOwnedShares = (conversationId: string) =>
+  readOwnedShares().filter((share) =>
+    share.conversationId === conversationId && (!share.expiresAt || share.expiresAt > Date.now()));
+
+export class ShareNotFoundError extends Error {
+  constructor(message = 'This link does not exist or has expired') {
+    super(message);
+    this.name = 'ShareNotFoundError';
+  }
+}
+
+const requestShare = async (url: string, init?: RequestInit) => {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    if (response.status === 404) throw new ShareNotFoundError(data.message);
+    throw new Error(data.message || data.error || `Share request failed: ${response.status}`);
+  }
+  return response;
+};
+
+/**
+ * Stores a snapshot of the conversation on the server. `expiresIn` is in
+ * seconds; omit it for a link that never expires.
+ */
+export async function createShare(conversation: Conversation, expiresIn?: number): Promise<CreatedShare> {
+  const response = await requestShare('/api/share', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ conversation, expiresIn }),
+  });
+  const data = await response.json() as { id: string; deleteToken: string; expiresAt: number | null };
+  const share: CreatedShare = { ...data, url: shareUrl(data.id), conversationId: conversation.id };
+  writeOwnedShares([...readOwnedShares(), share]);
+  return share;
+}
+
+export async function fetchShare(id: string, signal?: AbortSignal): Promise<SharedConversation> {
+  const response = await requestShare(`/api/share?id=${encodeURIComponent(id)}`, { signal });
+  return await response.json() as SharedConversation;
+}
+
+export async function deleteShare(share: CreatedShare): Promise<void> {
+  try {
+    await requestShare(`/api/share?id=${encodeURIComponent(share.id)}`, {
+      method: 'DELETE',
+      headers: { 'X-Delete-Token': share.deleteToken },
+    });
+  } catch (error) {
+    // Already expired or deleted elsewhere: nothing left to revoke
+    if (!(error instanceof ShareNotFoundError)) throw error;
+  }
+  writeOwnedShares(readOwnedShares().filter((owned) => owned.id !== share.id));
+}
@@ -0,0 +1,46 @@
+/**
+ * Minimal Server-Sent Events reader for fetch responses
+ */
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+export async function* readServerSentEvents(
+  response: Response
+): AsyncGenerator<ServerSentEvent> {
+  if (!response.body) throw new Error('Response has no body to stream');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      // Events are separated by a blank line
+      let boundary = buffer.search(/\r?\n\r?\n/);
+      while (boundary !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+
+        let event = 'message';
+        const data: string[] = [];
+        for (const line of block.split(/\r?\n/)) {
+          if (line.startsWith('event:')) event = line.slice(6).trim();
+          else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+        }
+        if (data.length) yield { event, data: data.join('\n') };
+
+        boundary = buffer.search(/\r?\n\r?\n/);
+      }
+
+      if (done) break;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * The app's local stores: IndexedDB when the browser allows it (it can be
+ * missing or blocked, e.g. in some private windows), otherwise localStorage.
+ * The choice is made on first use.
+ */
+import { createIndexedDBStore } from '../storage/indexedDb';
+import { createLocalStorageStore } from '../storage/localStorage';
+import type { CollectionStore, ConversationStore, DirectionLibraryStore, RecordStore, StoreName } from '../storage/types';
+
+const createStore = <T extends { id: string }>(storeName: StoreName): RecordStore<T> => {
+  if (typeof indexedDB === 'undefined') return createLocalStorageStore<T>(storeName);
+
+  const indexedDBStore = createIndexedDBStore<T>(storeName);
+  let active: Promise<RecordStore<T>> | null = null;
+  const resolve = () => {
+    active ??= indexedDBStore.list().then(
+      () => indexedDBStore,
+      (error) => {
+        console.warn(`⚠️ IndexedDB unavailable for ${storeName}, falling back to localStorage:`, error);
+        return createLocalStorageStore<T>(storeName);
+      }
+    );
+    return active;
+  };
+
+  return {
+    list: async () => (await resolve()).list(),
+    get: async (id) => (await resolve()).get(id),
+    put: async (record) => (await resolve()).put(record),
+    delete: async (id) => (await resolve()).delete(id),
+  };
+};
+
+export const conversationStore: ConversationStore = createStore('conversations');
+export const collectionStore: CollectionStore = createStore('collections');
+export const directionLibraryStore: DirectionLibraryStore = createStore('directionLibraries');